@@ -2,9 +2,21 @@
 /**
  * Ask User MCP Server - Presents options as Telegram inline keyboard buttons.
  *
- * When Claude calls ask_user(), this server writes a request file that the
- * Telegram bot monitors. The bot then displays inline keyboard buttons.
- * When the user clicks, their choice is injected back to Claude.
+ * Tools: ask_user (single or multi-select, optional free-text "Other…",
+ * option descriptions), confirm (Confirm / Cancel for destructive actions),
+ * and delivery tools: send_file, send_photo, notify and set_status.
+ * permission_prompt is not meant for Claude: the bot passes it to the CLI as
+ * --permission-prompt-tool, so tool approvals are asked for in Telegram.
+ *
+ * When Claude calls ask_user(), this server sends the request to the bot over
+ * its local IPC socket (TELEGRAM_BOT_IPC, set by the bot for every CLI process),
+ * tagged with the bot session (TELEGRAM_BOT_SESSION). The bot displays inline
+ * keyboard buttons right away.
+ *
+ * In blocking mode (TELEGRAM_ASK_USER_MODE=blocking, the default) the tool call
+ * waits for the tap and returns the chosen option as its result, so Claude
+ * continues in the same turn. In prompt mode it returns at once and the
+ * choice is injected back to Claude as the next message.
  *
  * Uses the official MCP TypeScript SDK for proper protocol compliance.
  */
@@ -15,11 +27,87 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { writeFileSync } from "fs";
-import { tmpdir } from "os";
-import { resolve } from "path";
+import { createConnection } from "net";
+import { createInterface } from "readline";
 import { randomUUID } from "crypto";
 
+const BLOCKING = process.env.TELEGRAM_ASK_USER_MODE !== "prompt";
+
+// How long to wait for the bot's reply. Requests that wait for the user (blocking
+// ask_user, permission prompts) are answered when they tap; the bot gives up
+// after TELEGRAM_ASK_USER_TIMEOUT_MS (0 = never). Others are answered at once.
+const ASK_TIMEOUT_MS = parseInt(
+  process.env.TELEGRAM_ASK_USER_TIMEOUT_MS || "600000",
+  10
+);
+const WAIT_TIMEOUT_MS = ASK_TIMEOUT_MS > 0 ? ASK_TIMEOUT_MS + 30_000 : 0;
+const ACK_TIMEOUT_MS = 10_000;
+
+interface BotReply {
+  ok: boolean;
+  error?: string;
+  answer?: string | null;
+  choices?: string[];
+  typed?: boolean;
+  confirmed?: boolean;
+  timed_out?: boolean;
+  behavior?: "allow" | "deny";
+  message?: string;
+}
+
+/**
+ * Send one request to the bot and wait for its reply.
+ */
+function sendToBot(
+  request: Record<string, unknown>,
+  timeoutMs = ACK_TIMEOUT_MS
+): Promise<BotReply> {
+  const socketPath = process.env.TELEGRAM_BOT_IPC;
+  const sessionId = process.env.TELEGRAM_BOT_SESSION;
+  if (!socketPath || !sessionId) {
+    return Promise.reject(
+      new Error("Not running under the Telegram bot (TELEGRAM_BOT_IPC not set)")
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const socket = createConnection(socketPath);
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            socket.destroy();
+            reject(new Error("Timed out waiting for the Telegram bot"));
+          }, timeoutMs)
+        : undefined;
+
+    socket.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    socket.on("close", () => {
+      clearTimeout(timer);
+      reject(new Error("Connection to the Telegram bot closed"));
+    });
+    socket.on("connect", () => {
+      // Routing fields last: tool arguments must not override them
+      socket.write(
+        JSON.stringify({ ...request, id: randomUUID(), session_id: sessionId }) +
+          "\n"
+      );
+    });
+
+    createInterface({ input: socket }).once("line", (line) => {
+      clearTimeout(timer);
+      socket.end();
+      try {
+        resolve(JSON.parse(line));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+}
+
 // Create the MCP server
 const server = new Server(
   {
@@ -39,8 +127,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
     tools: [
       {
         name: "ask_user",
-        description:
-          "Present options to the user as tappable inline buttons in Telegram. IMPORTANT: After calling this tool, STOP and wait. Do NOT add any text after calling this tool - the user will tap a button and their choice becomes their next message. Just call the tool and end your turn.",
+        description: BLOCKING
+          ? "Present options to the user as tappable inline buttons in Telegram and wait for their choice. Returns the option(s) the user picked, their own text if they chose \"Other…\", or a note that they didn't answer in time."
+          : "Present options to the user as tappable inline buttons in Telegram. IMPORTANT: After calling this tool, STOP and wait. Do NOT add any text after calling this tool - the user will tap a button and their choice becomes their next message. Just call the tool and end your turn.",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -50,62 +139,229 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             options: {
               type: "array",
-              items: { type: "string" },
+              items: {
+                anyOf: [
+                  { type: "string" },
+                  {
+                    type: "object",
+                    properties: {
+                      label: { type: "string", description: "Button text (keep it short)" },
+                      description: {
+                        type: "string",
+                        description: "Longer explanation shown in the message body",
+                      },
+                    },
+                    required: ["label"],
+                  },
+                ],
+              },
               description:
-                "List of options for the user to choose from (2-6 options recommended)",
-              minItems: 2,
+                "Options for the user to choose from (2-6 recommended). Plain strings, or {label, description} objects.",
+              minItems: 1,
               maxItems: 10,
             },
+            multi_select: {
+              type: "boolean",
+              description:
+                "Let the user pick several options (toggle buttons plus Done). Default false.",
+            },
+            allow_other: {
+              type: "boolean",
+              description:
+                "Add an \"Other…\" button that lets the user type a free-text answer. Default false.",
+            },
           },
           required: ["question", "options"],
         },
       },
+      {
+        name: "confirm",
+        description:
+          "Ask the user to confirm an action with Confirm / Cancel buttons in Telegram. Use it before destructive or irreversible actions (deleting files, force-pushing, dropping data)." +
+          (BLOCKING
+            ? " Returns whether the user confirmed."
+            : " IMPORTANT: After calling this tool, STOP and wait for the user's answer as their next message."),
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            question: {
+              type: "string",
+              description: "What to confirm, e.g. \"Delete 12 log files?\"",
+            },
+            details: {
+              type: "string",
+              description: "Optional details shown below the question",
+            },
+            confirm_label: { type: "string", description: "Default \"Confirm\"" },
+            cancel_label: { type: "string", description: "Default \"Cancel\"" },
+            danger: {
+              type: "boolean",
+              description: "Show the confirm button as destructive (red). Default true.",
+            },
+          },
+          required: ["question"],
+        },
+      },
+      {
+        name: "send_file",
+        description:
+          "Send a file (report, archive, build artifact, ...) to the user's Telegram chat as a document. Max 50MB. Paths are relative to the working directory.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: { type: "string", description: "Path of the file to send" },
+            caption: { type: "string", description: "Optional caption" },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "send_photo",
+        description:
+          "Send an image (chart, screenshot, ...) to the user's Telegram chat as a photo. Max 10MB. Paths are relative to the working directory.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            path: { type: "string", description: "Path of the image to send" },
+            caption: { type: "string", description: "Optional caption" },
+          },
+          required: ["path"],
+        },
+      },
+      {
+        name: "notify",
+        description:
+          "Send a short standalone message to the user, e.g. when a long step finished or needs attention. Your normal reply is streamed anyway — only use this for things worth a separate notification.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            text: { type: "string", description: "Message text" },
+            silent: {
+              type: "boolean",
+              description: "Deliver without sound. Default false.",
+            },
+          },
+          required: ["text"],
+        },
+      },
+      {
+        name: "set_status",
+        description:
+          "Show a short progress line (e.g. \"Running test suite 3/5\") in the status message the user sees while you work.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            text: { type: "string", description: "Status text (one line)" },
+          },
+          required: ["text"],
+        },
+      },
+      {
+        name: "permission_prompt",
+        description:
+          "Used by the CLI (--permission-prompt-tool) to ask the Telegram user for tool approval. Do not call it yourself.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            tool_name: { type: "string" },
+            input: { type: "object" },
+            tool_use_id: { type: "string" },
+          },
+          required: ["tool_name", "input"],
+        },
+      },
     ],
   };
 });
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  if (request.params.name !== "ask_user") {
-    throw new Error(`Unknown tool: ${request.params.name}`);
+const DELIVERY_TOOLS = ["send_file", "send_photo", "notify", "set_status"];
+
+/**
+ * Tool result for a prompt-mode request, or a blocking request's answer.
+ */
+function resultText(tool: string, reply: BotReply): string {
+  if (!BLOCKING) {
+    return "[Buttons sent to user. STOP HERE - do not output any more text. Wait for user to tap a button.]";
+  }
+  if (reply.timed_out || reply.answer == null) {
+    return "[The user did not answer. Continue with your best judgement, or ask again later in plain text.]";
   }
+  if (tool === "confirm") {
+    return reply.confirmed ? "The user confirmed." : "The user cancelled. Do not proceed.";
+  }
+  if (reply.typed) {
+    return `The user answered in their own words: ${reply.answer}`;
+  }
+  const choices = reply.choices || [reply.answer];
+  return choices.length > 1
+    ? `The user chose:\n${choices.map((c) => `- ${c}`).join("\n")}`
+    : `The user chose: ${choices[0]}`;
+}
 
-  const args = request.params.arguments as {
-    question?: string;
-    options?: string[];
-  };
+// Handle tool calls
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const tool = request.params.name;
+  const args = (request.params.arguments || {}) as Record<string, unknown>;
 
-  const question = args.question || "";
-  const options = args.options || [];
+  // Tool approval for the CLI: reply in its permission-prompt format
+  if (tool === "permission_prompt") {
+    const input = (args.input || {}) as Record<string, unknown>;
+    let decision: Record<string, unknown>;
+    try {
+      const reply = await sendToBot(
+        { type: "permission", tool_name: args.tool_name, input },
+        WAIT_TIMEOUT_MS
+      );
+      decision =
+        reply.ok && reply.behavior === "allow"
+          ? { behavior: "allow", updatedInput: input }
+          : {
+              behavior: "deny",
+              message: reply.message || reply.error || "Denied",
+            };
+    } catch (error) {
+      decision = { behavior: "deny", message: `Approval failed: ${error}` };
+    }
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(decision) }],
+    };
+  }
 
-  if (!question || !options || options.length < 2) {
-    throw new Error("question and at least 2 options required");
+  // Delivery tools: the bot checks the path and sends it right away
+  if (DELIVERY_TOOLS.includes(tool)) {
+    const reply = await sendToBot({ ...args, type: tool });
+    if (!reply.ok) {
+      throw new Error(`Telegram bot rejected the request: ${reply.error}`);
+    }
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: tool === "set_status" ? "Status updated." : "Delivered to the user.",
+        },
+      ],
+    };
   }
 
-  // Generate request ID and get chat context from environment
-  const requestUuid = randomUUID().slice(0, 8);
-  const chatId = process.env.TELEGRAM_CHAT_ID || "";
-
-  // Write request file for the bot to pick up
-  const requestData = {
-    request_id: requestUuid,
-    question,
-    options,
-    status: "pending",
-    chat_id: chatId,
-    created_at: new Date().toISOString(),
-  };
+  if (tool !== "ask_user" && tool !== "confirm") {
+    throw new Error(`Unknown tool: ${tool}`);
+  }
+  if (!args.question) {
+    throw new Error("question is required");
+  }
 
-  const requestFile = resolve(tmpdir(), `ask-user-${requestUuid}.json`);
-  writeFileSync(requestFile, JSON.stringify(requestData, null, 2));
+  // Push the request to the bot (it validates the options); it replies once
+  // the buttons are shown (prompt mode) or once the user answered (blocking)
+  const reply = await sendToBot(
+    { ...args, type: tool },
+    BLOCKING ? WAIT_TIMEOUT_MS : ACK_TIMEOUT_MS
+  );
+  if (!reply.ok) {
+    throw new Error(`Telegram bot rejected the request: ${reply.error}`);
+  }
 
   return {
-    content: [
-      {
-        type: "text" as const,
-        text: "[Buttons sent to user. STOP HERE - do not output any more text. Wait for user to tap a button.]",
-      },
-    ],
+    content: [{ type: "text" as const, text: resultText(tool, reply) }],
   };
 });
 
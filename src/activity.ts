@@ -0,0 +1,193 @@
+/**
+ * Activity log for Claude Telegram Bot.
+ *
+ * With ACTIVITY_LOG on, each query records what Claude did: every tool call
+ * (as formatToolStatus shows it), how long it took, the start of its result,
+ * and the thinking. The live status message only ever shows the latest step
+ * and is deleted when the response is done; "🔍 What did you do?" on the
+ * action bar posts the whole log, as an expandable quote when it fits in a
+ * message or as a text file when it doesn't.
+ */
+
+import { escapeHtml } from "./formatting";
+
+interface ToolActivity {
+  id: string;
+  status: string; // formatToolStatus HTML
+  startedAt: number;
+  durationMs: number | null; // null = no result (still running or interrupted)
+  result: string | null;
+  isError: boolean;
+}
+
+const RESULT_PREVIEW_LENGTH = 200;
+const THINKING_PREVIEW_LENGTH = 600;
+const MAX_ACTIVITY_LOGS = 50;
+
+// Action bar buttons reference logs by a short ID (activity:{id})
+const activityLogs = new Map<number, ActivityLog>();
+let nextActivityLogId = 1;
+
+/**
+ * Text of a tool_result content field (a string or a list of content blocks).
+ */
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) =>
+      block?.type === "text" ? String(block.text || "") : block?.type ? `[${block.type}]` : ""
+    )
+    .join("\n");
+}
+
+function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+/**
+ * HTML from formatToolStatus as plain text, for the file version.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * What one query did, filled in from the CLI's stream events.
+ */
+export class ActivityLog {
+  readonly startedAt = Date.now();
+  finishedAt: number | null = null;
+  tools: ToolActivity[] = [];
+  private thinkingBlocks = new Map<string, string>(); // message:index -> text
+
+  toolStarted(id: string, status: string): void {
+    this.tools.push({
+      id,
+      status,
+      startedAt: Date.now(),
+      durationMs: null,
+      result: null,
+      isError: false,
+    });
+  }
+
+  toolFinished(id: string, content: unknown, isError: boolean): void {
+    const tool = this.tools.find((t) => t.id === id);
+    if (!tool || tool.durationMs !== null) return;
+    tool.durationMs = Date.now() - tool.startedAt;
+    tool.result = resultText(content);
+    tool.isError = isError;
+  }
+
+  /**
+   * Thinking blocks stream in growing; `key` identifies the block.
+   */
+  setThinking(key: string, text: string): void {
+    this.thinkingBlocks.set(key, text);
+  }
+
+  get thinking(): string {
+    return [...this.thinkingBlocks.values()].join("\n\n").trim();
+  }
+
+  get isEmpty(): boolean {
+    return this.tools.length === 0 && !this.thinking;
+  }
+
+  finish(): void {
+    this.finishedAt = Date.now();
+  }
+
+  private summary(): string {
+    const tools = `${this.tools.length} tool call${this.tools.length === 1 ? "" : "s"}`;
+    const elapsed = this.finishedAt ? ` · ${formatDuration(this.finishedAt - this.startedAt)}` : "";
+    return `${tools}${elapsed}`;
+  }
+
+  /**
+   * The log as an expandable quote: tool calls with duration and the start
+   * of their result, and the start of the thinking.
+   */
+  toHtml(): string {
+    const lines = [`🔍 <b>What I did</b> · ${this.summary()}`];
+
+    const thinking = this.thinking;
+    if (thinking) {
+      const preview =
+        thinking.length > THINKING_PREVIEW_LENGTH
+          ? `${thinking.slice(0, THINKING_PREVIEW_LENGTH)}…`
+          : thinking;
+      lines.push("", `🧠 <i>${escapeHtml(preview)}</i>`);
+    }
+
+    if (this.tools.length > 0) lines.push("");
+    this.tools.forEach((tool, i) => {
+      const duration =
+        tool.durationMs === null ? " · <i>no result</i>" : ` · ${formatDuration(tool.durationMs)}`;
+      lines.push(`${i + 1}. ${tool.status}${duration}`);
+      const result = tool.result?.replace(/\s+/g, " ").trim();
+      if (result) {
+        const preview =
+          result.length > RESULT_PREVIEW_LENGTH
+            ? `${result.slice(0, RESULT_PREVIEW_LENGTH)}…`
+            : result;
+        lines.push(`    ${tool.isError ? "❌" : "↳"} ${escapeHtml(preview)}`);
+      }
+    });
+
+    return `<blockquote expandable>${lines.join("\n")}</blockquote>`;
+  }
+
+  /**
+   * The full log as plain text, for when it doesn't fit in a message.
+   */
+  toText(): string {
+    const lines = [`What I did (${this.summary()})`];
+
+    if (this.thinking) {
+      lines.push("", "== Thinking ==", "", this.thinking);
+    }
+
+    if (this.tools.length > 0) lines.push("", "== Tool calls ==");
+    this.tools.forEach((tool, i) => {
+      const duration = tool.durationMs === null ? "no result" : formatDuration(tool.durationMs);
+      lines.push("", `${i + 1}. ${htmlToText(tool.status)} (${duration})`);
+      if (tool.result) {
+        const result =
+          tool.result.length > RESULT_PREVIEW_LENGTH * 10
+            ? `${tool.result.slice(0, RESULT_PREVIEW_LENGTH * 10)}…`
+            : tool.result;
+        lines.push(`${tool.isError ? "Error" : "Result"}:`, result);
+      }
+    });
+
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * Keep a finished query's log for an action bar "What did you do?" button.
+ * Returns undefined if there's nothing to show.
+ */
+export function registerActivityLog(log: ActivityLog | null): number | undefined {
+  if (!log || log.isEmpty) return undefined;
+
+  const id = nextActivityLogId++;
+  activityLogs.set(id, log);
+  if (activityLogs.size > MAX_ACTIVITY_LOGS) {
+    activityLogs.delete(activityLogs.keys().next().value!);
+  }
+  return id;
+}
+
+export function getActivityLog(id: number): ActivityLog | null {
+  return activityLogs.get(id) || null;
+}
@@ -0,0 +1,373 @@
+/**
+ * Git checkpoints for Claude Telegram Bot.
+ *
+ * Before each query in a git repository, the working tree (tracked and
+ * untracked files, minus ignored ones) is committed to a shadow ref under
+ * refs/claude-bot/checkpoints/<chat>/<time> with a throwaway index, so HEAD,
+ * branches and the real index are never touched. When the query ends, a
+ * second commit with the new tree is stacked on top: the ref's parent is the
+ * state before the turn, the ref itself the state after it. Turns that changed
+ * nothing are dropped.
+ *
+ * Restoring puts the files that differ from a checkpoint back to its "before"
+ * state. The restore is recorded as a checkpoint of its own, so it can be
+ * undone the same way.
+ *
+ * Checkpoints are kept per chat, not per session: parallel sessions of a chat
+ * share one list and one MAX_CHECKPOINTS budget. A checkpoint is a state of the
+ * whole working tree, so restoring one also rolls back other sessions' edits in
+ * that repository, and /checkpoints shows every turn that could be undone there.
+ * Session IDs wouldn't do either: the bot numbers sessions anew on every start
+ * and the CLI's change with /new and forks, which would strand checkpoints.
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { randomUUID } from "crypto";
+import { copyFileSync, existsSync, unlinkSync } from "fs";
+import { isAbsolute, relative, resolve } from "path";
+import { CHECKPOINTS_ENABLED, MAX_CHECKPOINTS, TEMP_DIR } from "./config";
+import { escapeHtml } from "./formatting";
+
+const execFileAsync = promisify(execFile);
+
+// ============== Types ==============
+
+export interface Checkpoint {
+  id: string; // Creation time in ms, the last part of the ref name
+  root: string; // Repository top level
+  ref: string;
+  before: string; // Commit of the working tree before the turn
+  after: string | null; // Commit after the turn (null while it runs)
+  prompt: string;
+  createdAt: Date;
+}
+
+interface FileChange {
+  status: string; // A, M, D or T (git diff --name-status)
+  path: string;
+}
+
+const REF_ROOT = "refs/claude-bot/checkpoints";
+
+// Snapshot commits need an identity even where git has none configured
+const GIT_IDENTITY = {
+  GIT_AUTHOR_NAME: "Claude Telegram Bot",
+  GIT_AUTHOR_EMAIL: "bot@localhost",
+  GIT_COMMITTER_NAME: "Claude Telegram Bot",
+  GIT_COMMITTER_EMAIL: "bot@localhost",
+};
+
+// ============== Git Helpers ==============
+
+async function git(
+  cwd: string,
+  args: string[],
+  env?: Record<string, string>
+): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, {
+    cwd,
+    env: env ? { ...process.env, ...env } : process.env,
+    maxBuffer: 32 * 1024 * 1024,
+    windowsHide: true,
+  });
+  return stdout.replace(/\n$/, "");
+}
+
+/**
+ * Ref namespace of a chat's checkpoints (shared by its sessions, see above).
+ */
+function refPrefix(chatKey: string): string {
+  return `${REF_ROOT}/${chatKey.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
+/**
+ * Top level of the repository containing `cwd`, or null if it isn't in one.
+ */
+async function repoRoot(cwd: string): Promise<string | null> {
+  try {
+    return await git(cwd, ["rev-parse", "--show-toplevel"]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Commit the working tree as it is now, staged with a copy of the index.
+ */
+async function snapshot(
+  root: string,
+  parent: string | null,
+  message: string
+): Promise<string> {
+  const indexPath = resolve(TEMP_DIR, `checkpoint-index-${randomUUID().slice(0, 8)}`);
+  try {
+    // Starting from the real index lets git reuse its stat cache
+    const realIndex = resolve(root, await git(root, ["rev-parse", "--git-path", "index"]));
+    if (existsSync(realIndex)) {
+      copyFileSync(realIndex, indexPath);
+    }
+
+    const env = { GIT_INDEX_FILE: indexPath, ...GIT_IDENTITY };
+    await git(root, ["add", "-A"], env);
+    const tree = await git(root, ["write-tree"], env);
+    const parentArgs = parent ? ["-p", parent] : [];
+    return await git(root, ["commit-tree", tree, ...parentArgs, "-m", message], env);
+  } finally {
+    try {
+      unlinkSync(indexPath);
+    } catch {}
+  }
+}
+
+async function changedFiles(
+  root: string,
+  from: string,
+  to: string
+): Promise<FileChange[]> {
+  const output = await git(root, ["diff", "--name-status", "--no-renames", "-z", from, to]);
+  const parts = output.split("\0").filter(Boolean);
+  const changes: FileChange[] = [];
+  for (let i = 0; i + 1 < parts.length; i += 2) {
+    changes.push({ status: parts[i]!, path: parts[i + 1]! });
+  }
+  return changes;
+}
+
+function summarize(prompt: string): string {
+  return prompt.replace(/\s+/g, " ").trim().slice(0, 100);
+}
+
+// ============== Checkpoint Lifecycle ==============
+
+/**
+ * Snapshot the working tree before a query. Null when checkpoints are off,
+ * `cwd` isn't in a git repository or the snapshot failed.
+ */
+export async function createCheckpoint(
+  cwd: string,
+  chatKey: string,
+  prompt: string
+): Promise<Checkpoint | null> {
+  if (!CHECKPOINTS_ENABLED) return null;
+
+  const root = await repoRoot(cwd);
+  if (!root) return null;
+
+  try {
+    const head = await git(root, ["rev-parse", "--verify", "-q", "HEAD"]).catch(
+      () => null
+    );
+    const summary = summarize(prompt);
+    const before = await snapshot(root, head, `before: ${summary}`);
+    const id = String(Date.now());
+    const ref = `${refPrefix(chatKey)}/${id}`;
+    await git(root, ["update-ref", ref, before]);
+    await pruneCheckpoints(root, chatKey);
+
+    return {
+      id,
+      root,
+      ref,
+      before,
+      after: null,
+      prompt: summary,
+      createdAt: new Date(Number(id)),
+    };
+  } catch (error) {
+    console.warn(`Failed to create checkpoint: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Record the state after a query. Returns the checkpoint if the turn changed
+ * any files; otherwise its ref is deleted and null is returned.
+ */
+export async function finishCheckpoint(
+  checkpoint: Checkpoint
+): Promise<Checkpoint | null> {
+  const { root, ref, before, prompt } = checkpoint;
+  try {
+    const after = await snapshot(root, before, `after: ${prompt}`);
+    if ((await changedFiles(root, before, after)).length === 0) {
+      await git(root, ["update-ref", "-d", ref]);
+      return null;
+    }
+    await git(root, ["update-ref", ref, after]);
+    return { ...checkpoint, after };
+  } catch (error) {
+    console.warn(`Failed to finish checkpoint: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * A chat's checkpoints in the repository containing `cwd`, newest first.
+ */
+export async function listCheckpoints(
+  cwd: string,
+  chatKey: string
+): Promise<Checkpoint[]> {
+  const root = await repoRoot(cwd);
+  if (!root) return [];
+
+  const output = await git(root, [
+    "for-each-ref",
+    "--sort=-refname",
+    "--format=%(refname)%09%(objectname)%09%(parent)%09%(subject)",
+    refPrefix(chatKey),
+  ]);
+
+  const checkpoints: Checkpoint[] = [];
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [ref, commit, parent, subject] = line.split("\t") as [
+      string,
+      string,
+      string,
+      string,
+    ];
+    const id = ref.split("/").pop()!;
+    const finished = subject.startsWith("after: ");
+    checkpoints.push({
+      id,
+      root,
+      ref,
+      before: finished ? parent.split(" ")[0]! : commit,
+      after: finished ? commit : null,
+      prompt: subject.replace(/^(before|after): /, ""),
+      createdAt: new Date(Number(id)),
+    });
+  }
+  return checkpoints;
+}
+
+export async function getCheckpoint(
+  cwd: string,
+  chatKey: string,
+  id: string
+): Promise<Checkpoint | null> {
+  const checkpoints = await listCheckpoints(cwd, chatKey);
+  return checkpoints.find((c) => c.id === id) || null;
+}
+
+async function pruneCheckpoints(root: string, chatKey: string): Promise<void> {
+  if (MAX_CHECKPOINTS <= 0) return;
+  const checkpoints = await listCheckpoints(root, chatKey);
+  for (const old of checkpoints.slice(MAX_CHECKPOINTS)) {
+    await git(root, ["update-ref", "-d", old.ref]);
+  }
+}
+
+// ============== Diff and Restore ==============
+
+/**
+ * Whether `dir` is inside the checkpoint's repository.
+ */
+export function isInCheckpointRepo(checkpoint: Checkpoint, dir: string): boolean {
+  const path = relative(resolve(checkpoint.root), resolve(dir));
+  return !path.startsWith("..") && !isAbsolute(path);
+}
+
+/**
+ * What a checkpoint's turn changed: a --stat summary and the full patch.
+ * For a turn that is still running, compares against the current files.
+ */
+export async function diffCheckpoint(
+  checkpoint: Checkpoint
+): Promise<{ stat: string; patch: string }> {
+  const { root, before } = checkpoint;
+  const after =
+    checkpoint.after ?? (await snapshot(root, before, `after: ${checkpoint.prompt}`));
+  const [stat, patch] = await Promise.all([
+    git(root, ["diff", "--stat", "--no-renames", before, after]),
+    git(root, ["diff", "--no-renames", before, after]),
+  ]);
+  return { stat, patch };
+}
+
+/**
+ * Put the working tree back to the state before a checkpoint's turn: files
+ * changed since then are restored, files created since then are deleted.
+ * Ignored files are left alone. The restore itself becomes a new checkpoint
+ * (returned, null if nothing changed), so it can be undone. This includes
+ * other sessions' edits: callers must not restore while one is running there.
+ */
+export async function restoreCheckpoint(
+  checkpoint: Checkpoint,
+  chatKey: string
+): Promise<{ files: number; undo: Checkpoint | null }> {
+  const { root, before } = checkpoint;
+  // Undoing an undo is a redo
+  const label = checkpoint.prompt.startsWith("↩ undo: ")
+    ? checkpoint.prompt.replace("↩ undo: ", "↪ redo: ")
+    : `↩ undo: ${checkpoint.prompt.replace(/^↪ redo: /, "")}`;
+  const undo = await createCheckpoint(root, chatKey, label);
+  const current = undo?.before ?? (await snapshot(root, null, label));
+
+  const changes = await changedFiles(root, before, current);
+  const restore = changes.filter((c) => c.status !== "A").map((c) => c.path);
+  const remove = changes.filter((c) => c.status === "A").map((c) => c.path);
+
+  for (let i = 0; i < restore.length; i += 100) {
+    const pathspecs = restore.slice(i, i + 100).map((p) => `:(literal)${p}`);
+    await git(root, ["restore", `--source=${before}`, "--worktree", "--", ...pathspecs]);
+  }
+  for (const path of remove) {
+    try {
+      unlinkSync(resolve(root, path));
+    } catch (error) {
+      console.warn(`Failed to remove ${path}: ${error}`);
+    }
+  }
+
+  return {
+    files: changes.length,
+    undo: undo ? await finishCheckpoint(undo) : null,
+  };
+}
+
+// ============== Listing ==============
+
+/**
+ * /checkpoints message: the chat's latest checkpoints with restore and diff
+ * buttons (ckpt:restore:{id}, ckpt:diff:{id}).
+ */
+export async function buildCheckpointsMessage(
+  cwd: string,
+  chatKey: string,
+  limit = 10
+): Promise<{
+  text: string;
+  keyboard: { text: string; callback_data: string }[][];
+}> {
+  const checkpoints = (await listCheckpoints(cwd, chatKey)).slice(0, limit);
+  if (checkpoints.length === 0) {
+    return {
+      text: CHECKPOINTS_ENABLED
+        ? "📸 No checkpoints for this chat in this directory.\n\nThey're taken before each query when the working directory is a git repository."
+        : "📸 Checkpoints are off. Set CHECKPOINTS_ENABLED=true to snapshot git repositories before each query.",
+      keyboard: [],
+    };
+  }
+
+  const lines = ["📸 <b>Checkpoints</b> (newest first)\n"];
+  const keyboard: { text: string; callback_data: string }[][] = [];
+  checkpoints.forEach((c, i) => {
+    const time = c.createdAt.toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    const running = c.after ? "" : " <i>(running or interrupted)</i>";
+    lines.push(`<b>${i + 1}.</b> ${time} — ${escapeHtml(c.prompt.slice(0, 60))}${running}`);
+    keyboard.push([
+      { text: `↩ Restore before ${i + 1}`, callback_data: `ckpt:restore:${c.id}` },
+      { text: `📄 Diff ${i + 1}`, callback_data: `ckpt:diff:${c.id}` },
+    ]);
+  });
+  lines.push("\n<i>Restoring puts the files back to how they were before that turn.</i>");
+
+  return { text: lines.join("\n"), keyboard };
+}
@@ -10,7 +10,7 @@ import { homedir, tmpdir } from "os";
 import { resolve, dirname } from "path";
 import { existsSync, mkdirSync, writeFileSync, readFileSync } from "fs";
 import { execSync } from "child_process";
-import type { McpServerConfig } from "./types";
+import type { McpServerConfig, PermissionMode } from "./types";
 
 // ============== Core Configuration ==============
 
@@ -51,6 +51,39 @@ function findClaudeCli(): string {
 
 export const CLAUDE_CLI_PATH = findClaudeCli();
 
+// ============== Claude CLI Defaults ==============
+
+// Defaults for new sessions; each session can override them via /model and /mode
+export const DEFAULT_MODEL = process.env.CLAUDE_MODEL || "";
+
+export const PERMISSION_MODES: PermissionMode[] = [
+  "plan",
+  "acceptEdits",
+  "default",
+  "bypass",
+];
+
+const envPermissionMode = process.env.CLAUDE_PERMISSION_MODE || "bypass";
+export const DEFAULT_PERMISSION_MODE: PermissionMode = PERMISSION_MODES.includes(
+  envPermissionMode as PermissionMode
+)
+  ? (envPermissionMode as PermissionMode)
+  : "bypass";
+
+// Tool policy (comma-separated CLI permission rules, e.g. "Bash(git:*),WebFetch").
+// allow/deny become --allowedTools/--disallowedTools; "ask" rules always need
+// approval in the chat. A project can override each list, see tool-policy.ts.
+function parseToolRules(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((r) => r.trim())
+    .filter(Boolean);
+}
+
+export const ALLOWED_TOOLS = parseToolRules(process.env.CLAUDE_ALLOWED_TOOLS);
+export const DISALLOWED_TOOLS = parseToolRules(process.env.CLAUDE_DISALLOWED_TOOLS);
+export const ASK_TOOLS = parseToolRules(process.env.CLAUDE_ASK_TOOLS);
+
 // ============== MCP Configuration ==============
 
 let MCP_SERVERS: Record<string, McpServerConfig> = {};
@@ -75,6 +108,18 @@ try {
 
 export { MCP_SERVERS };
 
+// ask_user MCP: "blocking" waits for the tap and returns the choice as the tool
+// result, so Claude continues in the same turn; "prompt" returns at once and
+// sends the tap as a new message. Blocking requests give up after the timeout.
+export const ASK_USER_MODE: "blocking" | "prompt" =
+  (process.env.ASK_USER_MODE || "blocking").toLowerCase() === "prompt"
+    ? "prompt"
+    : "blocking";
+export const ASK_USER_TIMEOUT_MS = parseInt(
+  process.env.ASK_USER_TIMEOUT_MS || "600000",
+  10
+);
+
 // ============== Security Configuration ==============
 
 const defaultAllowedPaths = [
@@ -137,7 +182,16 @@ export const BLOCKED_PATTERNS = [
   "del /s /q c:",
 ];
 
-export const QUERY_TIMEOUT_MS = 180_000;
+// Per-query wall-clock timeouts (0 = disabled). At the soft timeout the bot
+// offers "Keep waiting / Stop"; at the hard timeout the CLI process is killed.
+export const QUERY_TIMEOUT_MS = parseInt(
+  process.env.QUERY_TIMEOUT_MS || "180000",
+  10
+);
+export const QUERY_HARD_TIMEOUT_MS = parseInt(
+  process.env.QUERY_HARD_TIMEOUT_MS || "900000",
+  10
+);
 
 // ============== Voice Transcription ==============
 
@@ -179,6 +233,86 @@ export const THINKING_DEEP_KEYWORDS = thinkingDeepKeywordsStr
   .split(",")
   .map((k) => k.trim().toLowerCase());
 
+// Thinking token budgets (MAX_THINKING_TOKENS) for each level, see thinking.ts
+export const THINKING_NORMAL_TOKENS = parseInt(
+  process.env.THINKING_NORMAL_TOKENS || "10000",
+  10
+);
+export const THINKING_DEEP_TOKENS = parseInt(
+  process.env.THINKING_DEEP_TOKENS || "50000",
+  10
+);
+
+// ============== Session Scoping ==============
+
+// Give each forum topic its own session instead of sharing one per chat
+export const SESSION_PER_TOPIC =
+  (process.env.SESSION_PER_TOPIC || "false").toLowerCase() === "true";
+
+// Max messages waiting per session while Claude is busy
+export const MAX_QUEUE_SIZE = parseInt(process.env.MAX_QUEUE_SIZE || "5", 10);
+
+// ============== Context Compaction ==============
+
+// Hand off to a fresh session (seeded with a summary) once context use reaches
+// this percentage. 0 = only compact when the CLI reports prompt-too-long.
+export const CONTEXT_COMPACT_THRESHOLD = parseInt(
+  process.env.CONTEXT_COMPACT_THRESHOLD || "85",
+  10
+);
+
+// ============== Usage Budget ==============
+
+// Daily spend limit in USD (0 = no budget). "warn" notifies once a day when
+// it's exceeded; "block" refuses new queries until the next day.
+export const DAILY_BUDGET_USD = parseFloat(process.env.DAILY_BUDGET_USD || "0") || 0;
+export const BUDGET_MODE: "warn" | "block" =
+  (process.env.BUDGET_MODE || "warn").toLowerCase() === "block" ? "block" : "warn";
+
+// ============== Session Store ==============
+
+// Durable bot data (session store, etc.) — survives reboots, unlike TEMP_DIR
+export const DATA_DIR =
+  process.env.BOT_DATA_DIR || resolve(HOME, ".claude-telegram-bot");
+export const SESSION_DB_PATH =
+  process.env.SESSION_DB_PATH || resolve(DATA_DIR, "sessions.db");
+
+// Retention: drop sessions unused for N days, and keep at most N per chat (0 = unlimited)
+export const SESSION_RETENTION_DAYS = parseInt(
+  process.env.SESSION_RETENTION_DAYS || "90",
+  10
+);
+export const SESSION_RETENTION_MAX = parseInt(
+  process.env.SESSION_RETENTION_MAX || "500",
+  10
+);
+
+// ============== Background Jobs ==============
+
+// /bg jobs: log files live here; MAX_BACKGROUND_JOBS limits concurrent runs (0 = unlimited)
+export const JOBS_DIR = process.env.JOBS_DIR || resolve(DATA_DIR, "jobs");
+export const MAX_BACKGROUND_JOBS = parseInt(
+  process.env.MAX_BACKGROUND_JOBS || "3",
+  10
+);
+
+// ============== Checkpoints ==============
+
+// Snapshot git working trees before each query (shadow refs, see checkpoints.ts)
+// so a turn's edits can be undone; MAX_CHECKPOINTS are kept per chat. Opt-in:
+// every snapshot runs `git add -A` into a throwaway index, before and after
+// each query, which takes a while in large repositories.
+export const CHECKPOINTS_ENABLED =
+  (process.env.CHECKPOINTS_ENABLED || "false").toLowerCase() === "true";
+export const MAX_CHECKPOINTS = parseInt(process.env.MAX_CHECKPOINTS || "20", 10);
+
+// ============== Activity Log ==============
+
+// Record each query's tool calls, results and thinking for the action bar's
+// "What did you do?" button (see activity.ts)
+export const ACTIVITY_LOG =
+  (process.env.ACTIVITY_LOG || "false").toLowerCase() === "true";
+
 // ============== Media Group Settings ==============
 
 export const MEDIA_GROUP_TIMEOUT = 1000;
@@ -190,6 +324,35 @@ export const TELEGRAM_SAFE_LIMIT = 4000;
 export const STREAMING_THROTTLE_MS = 500;
 export const BUTTON_LABEL_MAX_LENGTH = 30;
 
+// ============== Tables and Code Blocks ==============
+
+// Tables wider than TABLE_MAX_WIDTH characters are laid out one row per record;
+// tables with more than TABLE_MAX_ROWS rows are attached as CSV. Code blocks
+// over CODE_BLOCK_MAX_LINES lines are collapsed into an expandable quote
+// (LONG_CODE_BLOCKS=expandable) or attached as a file (LONG_CODE_BLOCKS=file).
+export const TABLE_MAX_WIDTH = parseInt(process.env.TABLE_MAX_WIDTH || "40", 10);
+export const TABLE_MAX_ROWS = parseInt(process.env.TABLE_MAX_ROWS || "15", 10);
+export const CODE_BLOCK_MAX_LINES = parseInt(
+  process.env.CODE_BLOCK_MAX_LINES || "40",
+  10
+);
+export const LONG_CODE_BLOCKS: "expandable" | "file" =
+  (process.env.LONG_CODE_BLOCKS || "expandable").toLowerCase() === "file"
+    ? "file"
+    : "expandable";
+
+// ============== Long Answers ==============
+
+// Answers longer than LONG_ANSWER_THRESHOLD characters (0 = off) are sent as a
+// preview plus a .md document instead of a run of messages; LONG_ANSWER_HTML
+// also attaches a rendered .html copy.
+export const LONG_ANSWER_THRESHOLD = parseInt(
+  process.env.LONG_ANSWER_THRESHOLD || "10000",
+  10
+);
+export const LONG_ANSWER_HTML =
+  (process.env.LONG_ANSWER_HTML || "false").toLowerCase() === "true";
+
 // ============== Audit Logging ==============
 
 export const AUDIT_LOG_PATH =
@@ -213,6 +376,7 @@ export const RATE_LIMIT_WINDOW = parseInt(
 // ============== File Paths ==============
 
 const TMP = tmpdir();
+// Legacy session history, imported into the session store on first run
 export const SESSION_FILE = resolve(TMP, "claude-telegram-session.json");
 export const RESTART_FILE = resolve(TMP, "claude-telegram-restart.json");
 export const TEMP_DIR = resolve(TMP, "telegram-bot");
@@ -4,6 +4,14 @@
  * Markdown conversion and tool status display formatting.
  */
 
+import {
+  parseMarkdown,
+  plainText,
+  renderTelegramHtml,
+  type Block,
+  type RenderOptions,
+} from "./markdown";
+
 /**
  * Escape HTML special characters.
  */
@@ -19,118 +27,308 @@ export function escapeHtml(text: string): string {
  * Convert standard markdown to Telegram-compatible HTML.
  *
  * HTML is more reliable than Telegram's Markdown which breaks on special chars.
- * Telegram HTML supports: <b>, <i>, <code>, <pre>, <a href="">
+ * The text is parsed into an AST (see markdown.ts) and rendered with balanced
+ * tags from Telegram's subset: <b>, <i>, <s>, <u>, <tg-spoiler>, <code>,
+ * <pre>, <a href="">, <blockquote>. `options` control how long tables and
+ * code blocks are laid out or attached.
  */
-export function convertMarkdownToHtml(text: string): string {
-  // Store code blocks temporarily to avoid processing their contents
-  const codeBlocks: string[] = [];
-  const inlineCodes: string[] = [];
+export function convertMarkdownToHtml(text: string, options?: RenderOptions): string {
+  return renderTelegramHtml(parseMarkdown(text), options);
+}
 
-  // Save code blocks first (```code```)
-  text = text.replace(/```(?:\w+)?\n?([\s\S]*?)```/g, (_, code) => {
-    codeBlocks.push(code);
-    return `\x00CODEBLOCK${codeBlocks.length - 1}\x00`;
-  });
+// Legacy alias
+export const convertMarkdownForTelegram = convertMarkdownToHtml;
 
-  // Save inline code (`code`)
-  text = text.replace(/`([^`]+)`/g, (_, code) => {
-    inlineCodes.push(code);
-    return `\x00INLINECODE${inlineCodes.length - 1}\x00`;
-  });
+// ============== Message Splitting ==============
 
-  // Escape HTML entities in the remaining text
-  text = escapeHtml(text);
+interface OpenTag {
+  name: string;
+  open: string; // The opening tag as written, attributes included
+}
 
-  // Headers: ## Header -> <b>Header</b>
-  text = text.replace(/^#{1,6}\s+(.+)$/gm, "<b>$1</b>\n");
+function openingTags(stack: OpenTag[]): string {
+  return stack.map((t) => t.open).join("");
+}
 
-  // Bold: **text** -> <b>text</b>
-  text = text.replace(/\*\*(.+?)\*\*/g, "<b>$1</b>");
+function closingTags(stack: OpenTag[]): string {
+  return [...stack]
+    .reverse()
+    .map((t) => `</${t.name}>`)
+    .join("");
+}
 
-  // Also handle *text* as bold (single asterisk)
-  text = text.replace(/(?<!\*)\*(.+?)\*(?!\*)/g, "<b>$1</b>");
+/**
+ * How good a place `end` is to cut HTML: after a blank line or around a
+ * <pre> block at top level, then a line break, then a space.
+ */
+function htmlCutScore(html: string, end: number, stack: OpenTag[]): number {
+  if (stack.length === 0) {
+    if (html.slice(end - 2, end) === "\n\n") return 4;
+    if (html.startsWith("<pre", end) || html.slice(0, end).endsWith("</pre>")) {
+      return 3;
+    }
+  }
+  if (html[end - 1] === "\n") return 2;
+  if (html[end - 1] === " ") return 1;
+  return 0;
+}
 
-  // Double underscore: __text__ -> <b>text</b>
-  text = text.replace(/__([^_]+)__/g, "<b>$1</b>");
+/**
+ * Split Telegram HTML into messages of at most `limit` characters. Cuts never
+ * fall inside a tag or entity; tags open at a cut are closed at the end of one
+ * message and reopened at the start of the next.
+ */
+export function splitHtmlMessage(html: string, limit: number): string[] {
+  if (html.length <= limit) return [html];
+
+  // Open tags before each position, and whether a cut may fall there
+  const stacks: OpenTag[][] = new Array(html.length + 1);
+  const safe: boolean[] = new Array(html.length + 1).fill(true);
+  let stack: OpenTag[] = [];
+  for (let i = 0; i < html.length; ) {
+    let length = 1;
+    const c = html[i];
+    if (c === "<") {
+      const close = html.indexOf(">", i);
+      length = (close === -1 ? html.length : close + 1) - i;
+    } else if (c === "&") {
+      length = html.slice(i, i + 10).match(/^&#?\w+;/)?.[0].length || 1;
+    }
+    for (let j = i; j < i + length; j++) {
+      stacks[j] = stack;
+      safe[j] = j === i;
+    }
 
-  // Italic: _text_ -> <i>text</i> (but not __text__)
-  text = text.replace(/(?<!_)_([^_]+)_(?!_)/g, "<i>$1</i>");
+    const tag = c === "<" ? html.slice(i, i + length).match(/^<(\/?)([a-z-]+)/i) : null;
+    if (tag) {
+      const name = tag[2]!.toLowerCase();
+      if (tag[1]) {
+        const index = stack.map((t) => t.name).lastIndexOf(name);
+        if (index !== -1) stack = stack.slice(0, index);
+      } else {
+        stack = [...stack, { name, open: html.slice(i, i + length) }];
+      }
+    }
+    i += length;
+  }
+  stacks[html.length] = stack;
+
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < html.length) {
+    const prefix = openingTags(stacks[start]!);
+    const room = limit - prefix.length;
+    if (html.length - start + closingTags(stacks[html.length]!).length <= room) {
+      chunks.push(prefix + html.slice(start));
+      break;
+    }
 
-  // Blockquotes: &gt; text -> <blockquote>text</blockquote>
-  text = convertBlockquotes(text);
+    // Best cut in the second half of the room; the furthest one per score
+    const minEnd = start + Math.floor(room / 2);
+    let best = -1;
+    let bestScore = -1;
+    for (let end = Math.min(html.length, start + room); end > start; end--) {
+      if (!safe[end]) continue;
+      const fits = end - start + closingTags(stacks[end]!).length <= room;
+      if (!fits) continue;
+      const score = htmlCutScore(html, end, stacks[end]!);
+      if (score > bestScore) {
+        best = end;
+        bestScore = score;
+      }
+      if (bestScore === 4 || (end <= minEnd && best !== -1)) break;
+    }
+    if (best === -1) best = Math.min(html.length, start + Math.max(room, 1));
+
+    const end = best;
+    const body = html.slice(start, end);
+    chunks.push(
+      prefix +
+        (stacks[end]!.length === 0 ? body.trimEnd() : body) +
+        closingTags(stacks[end]!)
+    );
 
-  // Bullet lists: - item or * item -> • item
-  text = text.replace(/^[-*] /gm, "• ");
+    // Don't start the next message with blank lines
+    start = end;
+    while (html[start] === "\n" && stacks[start]!.length === 0) start++;
+  }
 
-  // Horizontal rules: --- or *** -> blank line
-  text = text.replace(/^[-*]{3,}$/gm, "");
+  return chunks.filter((c) => c.trim());
+}
 
-  // Links: [text](url) -> <a href="url">text</a>
-  text = text.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2">$1</a>');
+// Code fence lines: ``` or ~~~, three or more, indented or not
+const FENCE_LINE_RE = /^\s*(`{3,}|~{3,})(.*)$/;
 
-  // Restore code blocks
-  for (let i = 0; i < codeBlocks.length; i++) {
-    const escapedCode = escapeHtml(codeBlocks[i]!);
-    text = text.replace(`\x00CODEBLOCK${i}\x00`, `<pre>${escapedCode}</pre>`);
+/**
+ * The code fence open after `line`, given the one open before it (its
+ * opening line, trimmed). A fence closes on the same character, at least as
+ * long, with nothing after it.
+ */
+function fenceAfter(open: string | null, line: string): string | null {
+  const match = line.match(FENCE_LINE_RE);
+  if (!match) return open;
+  const [, marker, info] = match as unknown as [string, string, string];
+  if (open === null) {
+    // ```foo``` on one line is inline code, not a fence
+    return marker[0] === "`" && info.includes("`") ? null : line.trim();
   }
+  const openMarker = fenceMarker(open);
+  const closes =
+    marker[0] === openMarker[0] && marker.length >= openMarker.length && !info.trim();
+  return closes ? null : open;
+}
 
-  // Restore inline code
-  for (let i = 0; i < inlineCodes.length; i++) {
-    const escapedCode = escapeHtml(inlineCodes[i]!);
-    text = text.replace(
-      `\x00INLINECODE${i}\x00`,
-      `<code>${escapedCode}</code>`
-    );
+function fenceMarker(fence: string): string {
+  return fence.match(/^(`+|~+)/)?.[1] || "```";
+}
+
+/**
+ * Split markdown where its HTML would exceed `limit` characters: the head is
+ * the longest part that fits, cut at a blank line or code fence if possible,
+ * else at a line break, else at a space. A code block that spans the cut is
+ * closed in the head and reopened (`reopen`) at the start of the rest.
+ * `consumed` is how much of `text` the head covers. Null if it all fits.
+ * The HTML is measured as rendered with `options`; its `attachments` are
+ * only read (measuring renders into a copy).
+ */
+export function splitMarkdown(
+  text: string,
+  limit: number,
+  options?: RenderOptions
+): { head: string; rest: string; reopen: string; consumed: number } | null {
+  const htmlLength = (markdown: string) =>
+    convertMarkdownToHtml(
+      markdown,
+      options?.attachments ? { ...options, attachments: [...options.attachments] } : options
+    ).length;
+  if (htmlLength(text) <= limit) return null;
+
+  // Cut candidates at line starts, with the code fence open there (if any)
+  const cuts: { index: number; score: number; fence: string | null }[] = [];
+  const lines = text.split("\n");
+  let fence: string | null = null;
+  let index = 0;
+  for (let i = 0; i < lines.length - 1; i++) {
+    const line = lines[i]!;
+    const after = fenceAfter(fence, line);
+    const isFence = after !== fence;
+    fence = after;
+    index += line.length + 1;
+    if (isFence && fence !== null) continue; // Nothing of the block would be in the head
+
+    const next = lines[i + 1]!;
+    const score =
+      fence !== null
+        ? 1
+        : line.trim() === "" || isFence || FENCE_LINE_RE.test(next)
+          ? 3
+          : 2;
+    cuts.push({ index, score, fence });
+  }
+
+  const split = (cut: { index: number; fence: string | null }) => {
+    const head = text.slice(0, cut.index);
+    const marker = cut.fence ? fenceMarker(cut.fence) : "";
+    const close = cut.fence ? (head.endsWith("\n") ? marker : `\n${marker}`) : "";
+    const reopen = cut.fence ? `${cut.fence}\n` : "";
+    return {
+      head: head + close,
+      rest: reopen + text.slice(cut.index),
+      reopen,
+      consumed: cut.index,
+    };
+  };
+  const fits = (cut: { index: number; fence: string | null }) =>
+    htmlLength(split(cut).head) <= limit;
+
+  // Furthest fitting line cut (the HTML length grows with the cut index)
+  let lo = 0;
+  let hi = cuts.length - 1;
+  let furthest = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (fits(cuts[mid]!)) {
+      furthest = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
   }
 
-  // Collapse multiple newlines
-  text = text.replace(/\n{3,}/g, "\n\n");
+  if (furthest !== -1) {
+    // Prefer a better boundary in the second half of the fitting part
+    const minIndex = cuts[furthest]!.index / 2;
+    let best = cuts[furthest]!;
+    for (let i = furthest; i >= 0 && cuts[i]!.index >= minIndex; i--) {
+      if (cuts[i]!.score > best.score) best = cuts[i]!;
+    }
+    return split(best);
+  }
 
-  return text;
+  // A single line too long for one message: cut at a space, else anywhere
+  let low = 1;
+  let high = text.length - 1;
+  let cut = 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (htmlLength(text.slice(0, mid)) <= limit) {
+      cut = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  const space = text.lastIndexOf(" ", cut);
+  if (space > cut / 2) cut = space + 1;
+  const openFence = text.slice(0, cut).split("\n").reduce(fenceAfter, null);
+  return split({ index: cut, fence: openFence });
 }
 
 /**
- * Convert blockquotes (handles multi-line).
+ * Blocks that lead into the next one: headings, rules and a paragraph ending
+ * in a colon ("Here's the spec:").
  */
-function convertBlockquotes(text: string): string {
-  const lines = text.split("\n");
-  const result: string[] = [];
-  let inBlockquote = false;
-  const blockquoteLines: string[] = [];
-
-  for (const line of lines) {
-    if (line.startsWith("&gt; ") || line === "&gt;") {
-      if (line === "&gt;") {
-        blockquoteLines.push("");
-      } else {
-        // Remove '&gt; ' and strip # from hashtags (Telegram mobile bug workaround)
-        const content = line.slice(5).replace(/#/g, "");
-        blockquoteLines.push(content);
-      }
-      inBlockquote = true;
+function isIntroBlock(block: Block): boolean {
+  if (block.type === "heading" || block.type === "rule") return true;
+  return block.type === "paragraph" && plainText(block.children).trimEnd().endsWith(":");
+}
+
+/**
+ * HTML preview of a long answer: its first paragraph, with any headings or
+ * intro line above it. One too long for `limit` is cut at the last sentence
+ * end that fits, or else at a word (with an ellipsis).
+ */
+export function previewMarkdown(text: string, limit: number): string {
+  const blocks = parseMarkdown(text);
+  const first = blocks.findIndex((b) => !isIntroBlock(b));
+  const html = renderTelegramHtml(blocks.slice(0, first === -1 ? blocks.length : first + 1));
+  if (html.length <= limit) return html;
+
+  // Longest start that fits, with room for the ellipsis
+  let low = 1;
+  let high = text.length;
+  let cut = 0;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (convertMarkdownToHtml(text.slice(0, mid)).length < limit) {
+      cut = mid;
+      low = mid + 1;
     } else {
-      if (inBlockquote) {
-        result.push(
-          "<blockquote>" + blockquoteLines.join("\n") + "</blockquote>"
-        );
-        blockquoteLines.length = 0;
-        inBlockquote = false;
-      }
-      result.push(line);
+      high = mid - 1;
     }
   }
+  const head = text.slice(0, cut);
 
-  // Handle blockquote at end
-  if (inBlockquote) {
-    result.push("<blockquote>" + blockquoteLines.join("\n") + "</blockquote>");
+  let sentenceEnd = -1;
+  for (const match of head.matchAll(/[.!?][*_"')\]]*(?=\s)/g)) {
+    sentenceEnd = match.index + match[0].length;
   }
+  if (sentenceEnd > cut / 2) return convertMarkdownToHtml(head.slice(0, sentenceEnd));
 
-  return result.join("\n");
+  const space = head.lastIndexOf(" ");
+  return `${convertMarkdownToHtml(head.slice(0, space > cut / 2 ? space : cut).trimEnd())}…`;
 }
 
-// Legacy alias
-export const convertMarkdownForTelegram = convertMarkdownToHtml;
-
 // ============== GSD Command Extraction ==============
 
 export interface GsdCommandSuggestion {
@@ -179,6 +377,14 @@ export function extractGsdCommands(text: string): {
 export interface ActionKeyboardOptions {
   gsdCommands?: GsdCommandSuggestion[];
   hasClearSuggestion?: boolean;
+  /** Fork point ID for the "Fork" button (see registerForkPoint); omitted = no button */
+  forkPointId?: number;
+  /** Checkpoint ID for "Undo last turn" / "Show diff" (see checkpoints.ts); omitted = no buttons */
+  checkpointId?: string;
+  /** Long answer sent as a document, for "Expand inline" (see streaming.ts); omitted = no button */
+  longAnswerId?: string;
+  /** Activity log ID for "What did you do?" (see activity.ts); omitted = no button */
+  activityId?: number;
 }
 
 /**
@@ -188,7 +394,14 @@ export interface ActionKeyboardOptions {
 export function buildActionKeyboard(options: ActionKeyboardOptions = {}) {
   const rows: { text: string; callback_data: string }[][] = [];
 
-  const { gsdCommands = [], hasClearSuggestion = false } = options;
+  const {
+    gsdCommands = [],
+    hasClearSuggestion = false,
+    forkPointId,
+    checkpointId,
+    longAnswerId,
+    activityId,
+  } = options;
 
   if (gsdCommands.length > 0) {
     // Contextual GSD buttons: max 2 per row, max 4 total
@@ -218,17 +431,40 @@ export function buildActionKeyboard(options: ActionKeyboardOptions = {}) {
     }
   }
 
+  // Undo / diff of the files the last turn changed
+  if (checkpointId !== undefined) {
+    rows.push([
+      { text: "↩ Undo last turn", callback_data: `ckpt:undo:${checkpointId}` },
+      { text: "📄 Show diff", callback_data: `ckpt:diff:${checkpointId}` },
+    ]);
+  }
+
+  // Post a long answer sent as a document in the chat after all, and/or
+  // the turn's tool calls and thinking
+  const extras: { text: string; callback_data: string }[] = [];
+  if (longAnswerId !== undefined) {
+    extras.push({ text: "📖 Expand inline", callback_data: `expand:${longAnswerId}` });
+  }
+  if (activityId !== undefined) {
+    extras.push({ text: "🔍 What did you do?", callback_data: `activity:${activityId}` });
+  }
+  if (extras.length > 0) rows.push(extras);
+
   // Standard action buttons (always present)
   rows.push([
     { text: "📋 GSD", callback_data: "action:gsd" },
     { text: "⏸ Pause", callback_data: "gsd-run:/gsd:pause-work" },
     { text: "▶ Resume", callback_data: "gsd-run:/gsd:resume-work" },
   ]);
-  rows.push([
+  const controls = [
     { text: "🛑 Stop", callback_data: "action:stop" },
     { text: "🔄 Retry", callback_data: "action:retry" },
     { text: "🆕 New", callback_data: "action:new" },
-  ]);
+  ];
+  if (forkPointId !== undefined) {
+    controls.push({ text: "🍴 Fork", callback_data: `fork:${forkPointId}` });
+  }
+  rows.push(controls);
 
   return { inline_keyboard: rows };
 }
@@ -0,0 +1,428 @@
+/**
+ * ask_user prompts for Claude Telegram Bot.
+ *
+ * The ask_user MCP server pushes requests over IPC; they are shown here as
+ * inline keyboards: single choice, multi-select with toggles and Done, an
+ * optional "Other…" button that takes the next text message as the answer,
+ * and confirmations for destructive actions.
+ */
+
+import type { Api, Context } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { randomUUID } from "crypto";
+import { BUTTON_LABEL_MAX_LENGTH } from "../config";
+import { escapeHtml } from "../formatting";
+import type { ClaudeSession } from "../session";
+
+// ============== Types ==============
+
+export interface AskUserOption {
+  label: string;
+  description?: string;
+}
+
+export interface AskUserPrompt {
+  kind: "choice" | "confirm";
+  question: string;
+  options: AskUserOption[];
+  multiSelect: boolean;
+  allowOther: boolean;
+  // confirm only: extra context and red (danger) vs green confirm button
+  details?: string;
+  danger: boolean;
+}
+
+export interface AskUserAnswer {
+  choices: string[];
+  typed: boolean; // free text entered via "Other…"
+}
+
+export interface AskUserRequest {
+  id: string;
+  sessionId: number;
+  chatKey: string;
+  prompt: AskUserPrompt;
+  selected: Set<number>;
+  awaitingText: boolean;
+  message: { chatId: number; messageId: number } | null;
+  createdAt: number;
+  // Set while a blocking ask_user tool call waits for the answer
+  resolve?: (answer: AskUserAnswer | null) => void;
+}
+
+// Unanswered button prompts expire after a day
+const ASK_USER_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_OPTIONS = 10;
+
+const askUserRequests = new Map<string, AskUserRequest>();
+
+function pruneAskUserRequests(): void {
+  const cutoff = Date.now() - ASK_USER_TTL_MS;
+  for (const [id, request] of askUserRequests) {
+    if (request.createdAt < cutoff && !request.resolve) {
+      askUserRequests.delete(id);
+    }
+  }
+}
+
+// ============== Parsing ==============
+
+/**
+ * Validate an ask_user or confirm request from the MCP server.
+ * Returns an error message if it's malformed.
+ */
+export function parseAskUserPrompt(
+  request: Record<string, unknown>
+): AskUserPrompt | string {
+  const question = String(request.question || "").trim();
+  if (!question) return "question is required";
+
+  if (request.type === "confirm") {
+    return {
+      kind: "confirm",
+      question,
+      options: [
+        { label: String(request.confirm_label || "Confirm") },
+        { label: String(request.cancel_label || "Cancel") },
+      ],
+      multiSelect: false,
+      allowOther: false,
+      details: request.details ? String(request.details) : undefined,
+      danger: request.danger !== false,
+    };
+  }
+
+  const rawOptions = Array.isArray(request.options) ? request.options : [];
+  const options: AskUserOption[] = rawOptions
+    .map((o) =>
+      typeof o === "object" && o !== null
+        ? {
+            label: String((o as Record<string, unknown>).label || "").trim(),
+            description:
+              String((o as Record<string, unknown>).description || "").trim() ||
+              undefined,
+          }
+        : { label: String(o).trim() }
+    )
+    .filter((o) => o.label);
+
+  const allowOther = request.allow_other === true;
+  if (options.length < (allowOther ? 1 : 2)) {
+    return "at least 2 options required";
+  }
+  if (options.length > MAX_OPTIONS) {
+    return `at most ${MAX_OPTIONS} options allowed`;
+  }
+
+  return {
+    kind: "choice",
+    question,
+    options,
+    multiSelect: request.multi_select === true,
+    allowOther,
+    danger: false,
+  };
+}
+
+// ============== Rendering ==============
+
+function truncateLabel(label: string): string {
+  return label.length > BUTTON_LABEL_MAX_LENGTH
+    ? label.slice(0, BUTTON_LABEL_MAX_LENGTH) + "..."
+    : label;
+}
+
+/**
+ * Options are listed in the message body when a button can't show them in full.
+ */
+function needsOptionList(prompt: AskUserPrompt): boolean {
+  return (
+    prompt.kind === "choice" &&
+    prompt.options.some(
+      (o) => o.description || o.label.length > BUTTON_LABEL_MAX_LENGTH
+    )
+  );
+}
+
+function buildAskUserText(request: AskUserRequest): string {
+  const { prompt } = request;
+
+  if (prompt.kind === "confirm") {
+    const icon = prompt.danger ? "⚠️" : "❓";
+    const details = prompt.details ? `\n\n${escapeHtml(prompt.details)}` : "";
+    return `${icon} <b>${escapeHtml(prompt.question)}</b>${details}`;
+  }
+
+  const lines = [`❓ ${escapeHtml(prompt.question)}`];
+  if (needsOptionList(prompt)) {
+    lines.push("");
+    prompt.options.forEach((o, i) => {
+      const description = o.description ? ` — ${escapeHtml(o.description)}` : "";
+      lines.push(`${i + 1}. <b>${escapeHtml(o.label)}</b>${description}`);
+    });
+  }
+  if (request.awaitingText) {
+    lines.push("", "✏️ <i>Type your answer as a message.</i>");
+  } else if (prompt.multiSelect) {
+    lines.push("", "<i>Select all that apply, then tap Done.</i>");
+  }
+  return lines.join("\n");
+}
+
+function buildAskUserKeyboard(request: AskUserRequest): InlineKeyboard {
+  const { id, prompt } = request;
+  const keyboard = new InlineKeyboard();
+
+  if (prompt.kind === "confirm") {
+    keyboard.text(
+      `${prompt.danger ? "⚠️" : "✅"} ${truncateLabel(prompt.options[0]!.label)}`,
+      `askuser:${id}:0`
+    );
+    if (prompt.danger) keyboard.danger();
+    keyboard.text(`✖️ ${truncateLabel(prompt.options[1]!.label)}`, `askuser:${id}:1`);
+    return keyboard;
+  }
+
+  const numbered = needsOptionList(prompt);
+  prompt.options.forEach((option, idx) => {
+    const label = (numbered ? `${idx + 1}. ` : "") + truncateLabel(option.label);
+    if (prompt.multiSelect) {
+      const mark = request.selected.has(idx) ? "☑️" : "⬜";
+      keyboard.text(`${mark} ${label}`, `askuser:${id}:t:${idx}`).row();
+    } else {
+      keyboard.text(label, `askuser:${id}:${idx}`).row();
+    }
+  });
+
+  if (prompt.allowOther) {
+    keyboard.text("✏️ Other…", `askuser:${id}:other`).row();
+  }
+  if (prompt.multiSelect) {
+    const count = request.selected.size;
+    keyboard.text(count > 0 ? `✅ Done (${count})` : "✅ Done", `askuser:${id}:done`);
+  }
+  return keyboard;
+}
+
+/**
+ * Text an answer is shown as, and sent to Claude as in prompt mode.
+ */
+export function formatAskUserAnswer(answer: AskUserAnswer): string {
+  return answer.choices.join(", ");
+}
+
+// ============== Lifecycle ==============
+
+/**
+ * Show an ask_user request (pushed by the MCP server over IPC) as buttons.
+ *
+ * With `waitMs` set (blocking mode), resolves with the user's answer, or
+ * null if nothing is answered within `waitMs` (0 = no limit) or the query
+ * ends first. Otherwise resolves with null once the buttons are shown.
+ */
+export async function sendAskUserRequest(
+  ctx: Context,
+  session: Pick<ClaudeSession, "id" | "key">,
+  prompt: AskUserPrompt,
+  waitMs?: number
+): Promise<AskUserAnswer | null> {
+  pruneAskUserRequests();
+
+  const request: AskUserRequest = {
+    id: randomUUID().slice(0, 8),
+    sessionId: session.id,
+    chatKey: session.key,
+    prompt,
+    selected: new Set(),
+    awaitingText: false,
+    message: null,
+    createdAt: Date.now(),
+  };
+  askUserRequests.set(request.id, request);
+
+  const msg = await ctx.reply(buildAskUserText(request), {
+    parse_mode: "HTML",
+    reply_markup: buildAskUserKeyboard(request),
+  });
+  request.message = { chatId: msg.chat.id, messageId: msg.message_id };
+
+  if (waitMs === undefined) return null;
+
+  return new Promise((resolve) => {
+    const timer =
+      waitMs > 0
+        ? setTimeout(async () => {
+            if (!askUserRequests.delete(request.id)) return;
+            resolve(null);
+            try {
+              await ctx.api.editMessageText(
+                msg.chat.id,
+                msg.message_id,
+                `⌛ ${prompt.question}\n(no answer)`
+              );
+            } catch (error) {
+              console.debug("Failed to expire ask_user message:", error);
+            }
+          }, waitMs)
+        : null;
+
+    request.resolve = (answer) => {
+      if (timer) clearTimeout(timer);
+      askUserRequests.delete(request.id);
+      resolve(answer);
+    };
+  });
+}
+
+/**
+ * Close a request: show the answer in place of the buttons and hand it to a
+ * blocked tool call. Returns false if the request was not blocking.
+ */
+async function completeRequest(
+  api: Api,
+  request: AskUserRequest,
+  answer: AskUserAnswer
+): Promise<boolean> {
+  askUserRequests.delete(request.id);
+
+  if (request.message) {
+    const text =
+      request.prompt.kind === "confirm"
+        ? `${answer.choices[0] === request.prompt.options[0]!.label ? "✓" : "✖️"} ${request.prompt.question}\n→ ${formatAskUserAnswer(answer)}`
+        : `✓ ${formatAskUserAnswer(answer)}`;
+    try {
+      await api.editMessageText(
+        request.message.chatId,
+        request.message.messageId,
+        text
+      );
+    } catch (error) {
+      console.debug("Failed to edit ask_user message:", error);
+    }
+  }
+
+  if (!request.resolve) return false;
+  request.resolve(answer);
+  return true;
+}
+
+/**
+ * Handle a press on an ask_user button (askuser:{id}:{idx|t:idx|done|other}).
+ * Answers the callback query. Returns the answer when it still has to be sent
+ * to Claude as a new message (prompt mode), otherwise null.
+ */
+export async function pressAskUserButton(
+  ctx: Context,
+  requestId: string,
+  action: string
+): Promise<{ request: AskUserRequest; answer: AskUserAnswer } | null> {
+  pruneAskUserRequests();
+  const request = askUserRequests.get(requestId);
+  if (!request) {
+    await ctx.answerCallbackQuery({ text: "Request expired or invalid" });
+    return null;
+  }
+  const { prompt } = request;
+
+  // Multi-select toggle: update the keyboard in place
+  if (action.startsWith("t:")) {
+    const idx = parseInt(action.slice(2), 10);
+    if (!(idx >= 0 && idx < prompt.options.length)) {
+      await ctx.answerCallbackQuery({ text: "Invalid option" });
+      return null;
+    }
+    if (!request.selected.delete(idx)) request.selected.add(idx);
+    await ctx.answerCallbackQuery();
+    try {
+      await ctx.editMessageReplyMarkup({
+        reply_markup: buildAskUserKeyboard(request),
+      });
+    } catch (error) {
+      console.debug("Failed to update ask_user keyboard:", error);
+    }
+    return null;
+  }
+
+  // "Other…": the next text message in this chat is the answer
+  if (action === "other") {
+    for (const other of askUserRequests.values()) {
+      if (other.chatKey === request.chatKey) other.awaitingText = false;
+    }
+    request.awaitingText = true;
+    await ctx.answerCallbackQuery({ text: "Type your answer" });
+    try {
+      await ctx.editMessageText(buildAskUserText(request), {
+        parse_mode: "HTML",
+        reply_markup: buildAskUserKeyboard(request),
+      });
+    } catch (error) {
+      console.debug("Failed to edit ask_user message:", error);
+    }
+    return null;
+  }
+
+  let choices: string[];
+  if (action === "done") {
+    if (request.selected.size === 0) {
+      await ctx.answerCallbackQuery({ text: "Pick at least one option" });
+      return null;
+    }
+    choices = [...request.selected].sort((a, b) => a - b).map((i) => prompt.options[i]!.label);
+  } else {
+    const idx = parseInt(action, 10);
+    if (!(idx >= 0 && idx < prompt.options.length)) {
+      await ctx.answerCallbackQuery({ text: "Invalid option" });
+      return null;
+    }
+    choices = [prompt.options[idx]!.label];
+  }
+
+  const answer: AskUserAnswer = { choices, typed: false };
+  await ctx.answerCallbackQuery({
+    text: `Selected: ${formatAskUserAnswer(answer).slice(0, 50)}`,
+  });
+
+  const blocking = await completeRequest(ctx.api, request, answer);
+  return blocking ? null : { request, answer };
+}
+
+/**
+ * Whether a blocking ask_user call in this chat waits for a typed answer.
+ * Such a reply must skip the message queue: the query that asked is still
+ * running and would otherwise hold it back until the request times out.
+ */
+export function isAwaitingAskUserText(chatKey: string): boolean {
+  return [...askUserRequests.values()].some(
+    (r) => r.chatKey === chatKey && r.awaitingText && r.resolve
+  );
+}
+
+/**
+ * Use a text message as the answer to an "Other…" prompt in this chat.
+ * Returns true if it answered a blocking request (the message is consumed);
+ * in prompt mode the message goes on to Claude as usual.
+ */
+export async function answerAskUserWithText(
+  ctx: Context,
+  chatKey: string,
+  text: string
+): Promise<boolean> {
+  const request = [...askUserRequests.values()].find(
+    (r) => r.chatKey === chatKey && r.awaitingText
+  );
+  if (!request) return false;
+
+  return completeRequest(ctx.api, request, { choices: [text], typed: true });
+}
+
+/**
+ * Give up on a session's blocking requests (its query ended).
+ */
+export function cancelAskUserRequests(sessionId: number): void {
+  for (const request of [...askUserRequests.values()]) {
+    if (request.sessionId === sessionId && request.resolve) {
+      request.resolve(null);
+    }
+  }
+}
@@ -7,7 +7,7 @@
 
 import type { Context } from "grammy";
 import { unlinkSync, writeFileSync } from "fs";
-import { session } from "../session";
+import { getSession } from "../session";
 import { ALLOWED_USERS, TEMP_DIR, TRANSCRIPTION_AVAILABLE } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import {
@@ -15,10 +15,12 @@ import {
   auditLogRateLimit,
   transcribeVoice,
   startTypingIndicator,
+  queryTimeoutReply,
 } from "../utils";
 import { StreamingState, createStatusCallback } from "./streaming";
 import { autoDocument, formatDocReply } from "../autodoc";
 import { escapeHtml } from "../formatting";
+import { drainQueue, queueIfBusy } from "./text";
 
 // Supported audio file extensions
 const AUDIO_EXTENSIONS = [
@@ -57,6 +59,8 @@ export async function processAudioFile(
   username: string,
   chatId: number
 ): Promise<void> {
+  const session = getSession(ctx);
+
   if (!TRANSCRIPTION_AVAILABLE) {
     await ctx.reply(
       "Voice transcription is not configured. Set OPENAI_API_KEY in .env"
@@ -64,7 +68,7 @@ export async function processAudioFile(
     return;
   }
 
-  const stopProcessing = session.startProcessing();
+  let stopProcessing = session.startProcessing();
   const typing = startTypingIndicator(ctx);
 
   try {
@@ -98,6 +102,15 @@ export async function processAudioFile(
       ? `${transcript}\n\n---\n\n${caption}`
       : transcript;
 
+    // Queue if another query is running
+    stopProcessing();
+    if (
+      await queueIfBusy(session, { ctx, text: prompt, kind: "audio", preview: transcript })
+    ) {
+      return;
+    }
+    stopProcessing = session.startProcessing();
+
     // Set conversation title (if new session)
     if (!session.isActive) {
       const title =
@@ -109,7 +122,7 @@ export async function processAudioFile(
 
     // Create streaming state and callback
     const state = new StreamingState();
-    const statusCallback = createStatusCallback(ctx, state);
+    const statusCallback = createStatusCallback(ctx, state, session);
 
     // Send "Processing..." message before Claude call
     const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -147,7 +160,10 @@ export async function processAudioFile(
   } catch (error) {
     console.error("Error processing audio:", error);
 
-    if (String(error).includes("abort") || String(error).includes("cancel")) {
+    const timeoutReply = queryTimeoutReply(error);
+    if (timeoutReply) {
+      await ctx.reply(timeoutReply);
+    } else if (String(error).includes("abort") || String(error).includes("cancel")) {
       const wasInterrupt = session.consumeInterruptFlag();
       if (!wasInterrupt) {
         await ctx.reply("🛑 Query stopped.");
@@ -166,6 +182,8 @@ export async function processAudioFile(
       console.debug("Failed to delete audio file:", error);
     }
   }
+
+  await drainQueue(session);
 }
 
 /**
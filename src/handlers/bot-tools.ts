@@ -0,0 +1,131 @@
+/**
+ * Bot tools for Claude Telegram Bot.
+ *
+ * Handles the delivery tools of the bot MCP server (ask_user_mcp/server.ts),
+ * pushed over IPC while a query runs: send_file, send_photo, notify and
+ * set_status. Files are only sent from paths allowed by isPathAllowed.
+ */
+
+import type { Context } from "grammy";
+import { InputFile } from "grammy";
+import { statSync } from "fs";
+import { basename, isAbsolute, resolve } from "path";
+import { escapeHtml } from "../formatting";
+import type { IpcReply, IpcRequest } from "../ipc";
+import { isPathAllowed } from "../security";
+import type { ClaudeSession } from "../session";
+import type { StatusCallback } from "../types";
+import { auditLogTool } from "../utils";
+
+export const BOT_TOOL_TYPES = ["send_file", "send_photo", "notify", "set_status"];
+
+// Telegram Bot API upload limits
+const MAX_DOCUMENT_SIZE = 50 * 1024 * 1024;
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+const MAX_CAPTION_LENGTH = 1024;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? text.slice(0, max - 1) + "…" : text;
+}
+
+/**
+ * Resolve a file path from Claude (relative to the working dir) and check
+ * that it may be sent. Returns the absolute path or an error message.
+ */
+function checkFile(
+  path: string,
+  workingDir: string,
+  maxSize: number
+): { path: string } | { error: string } {
+  if (!path) return { error: "path is required" };
+
+  const expanded = path.replace(/^~/, process.env.HOME || process.env.USERPROFILE || "");
+  const absolute = isAbsolute(expanded) ? expanded : resolve(workingDir, expanded);
+
+  if (!isPathAllowed(absolute)) {
+    return { error: `Access denied: ${path} is outside the allowed paths` };
+  }
+
+  let size: number;
+  try {
+    const stats = statSync(absolute);
+    if (!stats.isFile()) return { error: `Not a file: ${path}` };
+    size = stats.size;
+  } catch {
+    return { error: `File not found: ${path}` };
+  }
+
+  if (size > maxSize) {
+    return {
+      error: `File too large (${(size / 1024 / 1024).toFixed(1)}MB, max ${maxSize / 1024 / 1024}MB)`,
+    };
+  }
+  return { path: absolute };
+}
+
+/**
+ * Run one bot tool request for a session's running query.
+ */
+export async function handleBotToolRequest(
+  ctx: Context,
+  session: Pick<ClaudeSession, "currentWorkingDir">,
+  request: IpcRequest,
+  statusCallback: StatusCallback
+): Promise<IpcReply> {
+  const userId = ctx.from?.id || 0;
+  const username = ctx.from?.username || "unknown";
+  const caption = request.caption
+    ? truncate(String(request.caption), MAX_CAPTION_LENGTH)
+    : undefined;
+
+  switch (request.type) {
+    case "send_file":
+    case "send_photo": {
+      const isPhoto = request.type === "send_photo";
+      const checked = checkFile(
+        String(request.path || ""),
+        session.currentWorkingDir,
+        isPhoto ? MAX_PHOTO_SIZE : MAX_DOCUMENT_SIZE
+      );
+      await auditLogTool(
+        userId,
+        username,
+        request.type,
+        { path: request.path },
+        "error" in checked,
+        "error" in checked ? checked.error : ""
+      );
+      if ("error" in checked) {
+        return { ok: false, error: checked.error };
+      }
+
+      const file = new InputFile(checked.path, basename(checked.path));
+      if (isPhoto) {
+        await ctx.replyWithPhoto(file, { caption });
+      } else {
+        await ctx.replyWithDocument(file, { caption });
+      }
+      return { ok: true };
+    }
+
+    case "notify": {
+      const text = String(request.text || "").trim();
+      if (!text) return { ok: false, error: "text is required" };
+      await ctx.reply(`🔔 ${escapeHtml(truncate(text, 4000))}`, {
+        parse_mode: "HTML",
+        disable_notification: request.silent === true,
+      });
+      return { ok: true };
+    }
+
+    case "set_status": {
+      const text = String(request.text || "").trim();
+      if (!text) return { ok: false, error: "text is required" };
+      await statusCallback("tool", `📌 ${escapeHtml(truncate(text, 200))}`);
+      return { ok: true };
+    }
+
+    default:
+      return { ok: false, error: `Unsupported request: ${request.type}` };
+  }
+}
@@ -4,17 +4,32 @@
  * Handles inline keyboard button presses (ask_user MCP integration).
  */
 
-import type { Context } from "grammy";
-import { unlinkSync, readFileSync, existsSync } from "fs";
-import { tmpdir } from "os";
-import { resolve } from "path";
-import { session } from "../session";
-import { ALLOWED_USERS } from "../config";
+import { InputFile, type Context } from "grammy";
+import { existsSync } from "fs";
+import { getSession, getSessionKey, sessionManager } from "../session";
+import { buildJobsMessage, cancelJob, getJob } from "../jobs";
+import {
+  diffCheckpoint,
+  getCheckpoint,
+  isInCheckpointRepo,
+  restoreCheckpoint,
+} from "../checkpoints";
+import { getActivityLog } from "../activity";
+import { escapeHtml } from "../formatting";
+import { takeOrphanedWork } from "../session-store";
+import { ALLOWED_USERS, TELEGRAM_SAFE_LIMIT } from "../config";
 import { isAuthorized } from "../security";
-import { auditLog, sleep, startTypingIndicator } from "../utils";
-import { StreamingState, createStatusCallback } from "./streaming";
+import {
+  auditLog,
+  queryTimeoutReply,
+  sleep,
+  startTypingIndicator,
+} from "../utils";
+import { StreamingState, createStatusCallback, expandLongAnswer } from "./streaming";
+import { formatAskUserAnswer, pressAskUserButton } from "./ask-user";
+import { decidePermission } from "./permissions";
 import { parseRegistry } from "../registry";
-import { GSD_OPERATIONS, parseRoadmap, handleGsd, handleProject, handleResume, handleRetry, sendGsdCommand } from "./commands";
+import { GSD_OPERATIONS, parseRoadmap, handleGsd, handleProject, handleResume, handleRetry, sendGsdCommand, buildSessionsMessage, buildResumePage, buildQueueMessage, getForkPoint, startFork, applyModel, applyPermissionMode, buildModelPicker, buildModePicker } from "./commands";
 
 /**
  * Handle callback queries from inline keyboards.
@@ -24,6 +39,7 @@ export async function handleCallback(ctx: Context): Promise<void> {
   const username = ctx.from?.username || "unknown";
   const chatId = ctx.chat?.id;
   const callbackData = ctx.callbackQuery?.data;
+  let session = getSession(ctx);
 
   if (!userId || !chatId || !callbackData) {
     await ctx.answerCallbackQuery();
@@ -42,6 +58,24 @@ export async function handleCallback(ctx: Context): Promise<void> {
     return;
   }
 
+  // 2a. Handle resume picker paging: resume-page:{offset}
+  if (callbackData.startsWith("resume-page:")) {
+    const offset = parseInt(callbackData.replace("resume-page:", ""), 10) || 0;
+    const page = buildResumePage(session, offset);
+    if (page) {
+      try {
+        await ctx.editMessageText(page.text, {
+          parse_mode: "HTML",
+          reply_markup: page.keyboard,
+        });
+      } catch (error) {
+        console.debug("Failed to edit resume message:", error);
+      }
+    }
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
   // 2b. Handle project callbacks: project:{index}
   if (callbackData.startsWith("project:")) {
     await handleProjectCallback(ctx, callbackData);
@@ -92,67 +126,117 @@ export async function handleCallback(ctx: Context): Promise<void> {
     return;
   }
 
-  // 3. Parse callback data: askuser:{request_id}:{option_index}
-  if (!callbackData.startsWith("askuser:")) {
-    await ctx.answerCallbackQuery();
+  // 2h. Handle session switcher: sessions:{switch|close}:{id} or sessions:new
+  if (callbackData.startsWith("sessions:")) {
+    await handleSessionsCallback(ctx, callbackData);
     return;
   }
 
-  const parts = callbackData.split(":");
-  if (parts.length !== 3) {
-    await ctx.answerCallbackQuery({ text: "Invalid callback data" });
+  // 2i. Handle fork from an action bar: fork:{point_id}
+  if (callbackData.startsWith("fork:")) {
+    const point = getForkPoint(parseInt(callbackData.slice(5), 10));
+    if (!point) {
+      await ctx.answerCallbackQuery({
+        text: "This fork point has expired. Use /fork instead.",
+        show_alert: true,
+      });
+      return;
+    }
+    await ctx.answerCallbackQuery({ text: "Forking..." });
+    await startFork(ctx, point);
     return;
   }
 
-  const requestId = parts[1]!;
-  const optionIndex = parseInt(parts[2]!, 10);
+  // 2j. Handle timeout prompt: timeout:{wait|stop}:{session_id}
+  if (callbackData.startsWith("timeout:")) {
+    await handleTimeoutCallback(ctx, callbackData);
+    return;
+  }
 
-  // 3. Load request file
-  const requestFile = resolve(tmpdir(), `ask-user-${requestId}.json`);
-  let requestData: {
-    question: string;
-    options: string[];
-    status: string;
-  };
+  // 2k. Handle model and permission mode pickers: model:{id}, mode:{mode}
+  if (callbackData.startsWith("model:") || callbackData.startsWith("mode:")) {
+    await handleSettingsCallback(ctx, callbackData);
+    return;
+  }
 
-  try {
-    const text = readFileSync(requestFile, "utf-8");
-    requestData = JSON.parse(text);
-  } catch (error) {
-    console.error(`Failed to load ask-user request ${requestId}:`, error);
-    await ctx.answerCallbackQuery({ text: "Request expired or invalid" });
+  // 2l. Handle queue editing: queue:{drop|front}:{id}, queue:merge, queue:clear
+  if (callbackData.startsWith("queue:")) {
+    await handleQueueCallback(ctx, callbackData);
     return;
   }
 
-  // 4. Get selected option
-  if (optionIndex < 0 || optionIndex >= requestData.options.length) {
-    await ctx.answerCallbackQuery({ text: "Invalid option" });
+  // 2m. Handle background jobs: job:{output|continue|cancel}:{id}, job:refresh
+  if (callbackData.startsWith("job:")) {
+    await handleJobCallback(ctx, callbackData);
     return;
   }
 
-  const selectedOption = requestData.options[optionIndex]!;
+  // 2n. Handle tool permission prompts: perm:{id}:{once|always|deny}
+  if (callbackData.startsWith("perm:")) {
+    const [, id, decision] = callbackData.split(":");
+    const decided =
+      (decision === "once" || decision === "always" || decision === "deny") &&
+      decidePermission(id || "", decision);
+    await ctx.answerCallbackQuery({
+      text: decided ? "Got it" : "Request expired or already answered",
+    });
+    return;
+  }
 
-  // 5. Update the message to show selection
-  try {
-    await ctx.editMessageText(`✓ ${selectedOption}`);
-  } catch (error) {
-    console.debug("Failed to edit callback message:", error);
+  // 2o. Handle replay of work left over from before a restart: replay:{run|discard}
+  if (callbackData.startsWith("replay:")) {
+    await handleReplayCallback(ctx, callbackData);
+    return;
   }
 
-  // 6. Answer the callback
-  await ctx.answerCallbackQuery({
-    text: `Selected: ${selectedOption.slice(0, 50)}`,
-  });
+  // 2p. Handle checkpoints: ckpt:{undo|restore|diff}:{id}
+  if (callbackData.startsWith("ckpt:")) {
+    await handleCheckpointCallback(ctx, callbackData);
+    return;
+  }
 
-  // 7. Delete request file
-  try {
-    unlinkSync(requestFile);
-  } catch (error) {
-    console.debug("Failed to delete request file:", error);
+  // 2q. Handle long answers sent as a document: expand:{id}
+  if (callbackData.startsWith("expand:")) {
+    await ctx.answerCallbackQuery();
+    if (!(await expandLongAnswer(ctx, callbackData.slice("expand:".length)))) {
+      await ctx.reply(
+        "⚠️ That answer is no longer kept (the bot may have restarted). The attached document has it in full."
+      );
+    }
+    return;
   }
 
-  // 8. Send the choice to Claude as a message
-  const message = selectedOption;
+  // 2r. Handle activity logs: activity:{id}
+  if (callbackData.startsWith("activity:")) {
+    await handleActivityCallback(ctx, callbackData);
+    return;
+  }
+
+  // 3. Parse callback data: askuser:{request_id}:{option_index|t:index|done|other}
+  if (!callbackData.startsWith("askuser:")) {
+    await ctx.answerCallbackQuery();
+    return;
+  }
+
+  const parts = callbackData.split(":");
+  if (parts.length < 3) {
+    await ctx.answerCallbackQuery({ text: "Invalid callback data" });
+    return;
+  }
+
+  // 4. Apply the press; blocking requests are answered right here
+  const result = await pressAskUserButton(
+    ctx,
+    parts[1]!,
+    parts.slice(2).join(":")
+  );
+  if (!result) return;
+
+  // 5. Route the answer to the session that asked (it may not be the active one)
+  session = sessionManager.byId(result.request.sessionId) || session;
+
+  // 6. Send the choice to Claude as a message
+  const message = formatAskUserAnswer(result.answer);
 
   // Interrupt any running query - button responses are always immediate
   if (session.isRunning) {
@@ -167,7 +251,7 @@ export async function handleCallback(ctx: Context): Promise<void> {
 
   // Create streaming state
   const state = new StreamingState();
-  const statusCallback = createStatusCallback(ctx, state);
+  const statusCallback = createStatusCallback(ctx, state, session);
 
   try {
     const response = await session.sendMessageStreaming(
@@ -191,7 +275,10 @@ export async function handleCallback(ctx: Context): Promise<void> {
       }
     }
 
-    if (String(error).includes("abort") || String(error).includes("cancel")) {
+    const timeoutReply = queryTimeoutReply(error);
+    if (timeoutReply) {
+      await ctx.reply(timeoutReply);
+    } else if (String(error).includes("abort") || String(error).includes("cancel")) {
       // Only show "Query stopped" if it was an explicit stop, not an interrupt from a new message
       const wasInterrupt = session.consumeInterruptFlag();
       if (!wasInterrupt) {
@@ -214,6 +301,7 @@ async function handleActionCallback(
   callbackData: string,
   chatId: number
 ): Promise<void> {
+  const session = getSession(ctx);
   const action = callbackData.replace("action:", "");
 
   // Remove the button row message
@@ -269,6 +357,468 @@ async function handleActionCallback(
   }
 }
 
+/**
+ * Handle session switcher callbacks (sessions:{switch|close}:{id}, sessions:new).
+ * Refreshes the /sessions message in place.
+ */
+async function handleSessionsCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const session = getSession(ctx);
+  const key = session.key;
+  const [, action, idStr] = callbackData.split(":");
+  const id = parseInt(idStr || "", 10);
+
+  let notice: string;
+  if (action === "new") {
+    const created = sessionManager.create(key);
+    notice = `Created ${created.name}`;
+  } else if (action === "switch") {
+    const target = sessionManager.byId(id);
+    if (!target || !sessionManager.switchTo(key, id)) {
+      await ctx.answerCallbackQuery({ text: "Session not found" });
+      return;
+    }
+    notice = `Active: ${target.name}`;
+  } else if (action === "close") {
+    const target = sessionManager.byId(id);
+    if (!target || !(await sessionManager.close(key, id))) {
+      await ctx.answerCallbackQuery({
+        text: "Can't close the last session",
+        show_alert: true,
+      });
+      return;
+    }
+    notice = `Closed ${target.name}`;
+  } else {
+    await ctx.answerCallbackQuery({ text: "Unknown session action" });
+    return;
+  }
+
+  const { text, keyboard } = buildSessionsMessage(key);
+  try {
+    await ctx.editMessageText(text, {
+      parse_mode: "HTML",
+      reply_markup: keyboard,
+    });
+  } catch (error) {
+    console.debug("Failed to edit sessions message:", error);
+  }
+  await ctx.answerCallbackQuery({ text: notice });
+}
+
+/**
+ * Handle the soft-timeout prompt (timeout:wait:{id}, timeout:stop:{id}).
+ */
+async function handleTimeoutCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const [, action, idStr] = callbackData.split(":");
+  const target = sessionManager.byId(parseInt(idStr || "", 10));
+
+  if (!target || !target.isRunning) {
+    await ctx.answerCallbackQuery({ text: "Query already finished" });
+    try {
+      await ctx.deleteMessage();
+    } catch {}
+    return;
+  }
+
+  if (action === "wait") {
+    target.keepWaiting();
+    try {
+      await ctx.editMessageText("⏳ Keeping the query running...");
+    } catch (error) {
+      console.debug("Failed to edit timeout message:", error);
+    }
+    await ctx.answerCallbackQuery({ text: "Timeouts restarted" });
+  } else if (action === "stop") {
+    await target.stop();
+    try {
+      await ctx.editMessageText("🛑 Stopping query...");
+    } catch (error) {
+      console.debug("Failed to edit timeout message:", error);
+    }
+    await ctx.answerCallbackQuery({ text: "Stopping" });
+  } else {
+    await ctx.answerCallbackQuery({ text: "Unknown action" });
+  }
+}
+
+/**
+ * Handle /model and /mode picker callbacks. Refreshes the picker in place.
+ */
+async function handleSettingsCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const session = getSession(ctx);
+  const [kind, ...rest] = callbackData.split(":");
+  const value = rest.join(":");
+
+  const isModel = kind === "model";
+  const ok = isModel
+    ? applyModel(session, value)
+    : applyPermissionMode(session, value);
+  if (!ok) {
+    await ctx.answerCallbackQuery({ text: "Unknown choice" });
+    return;
+  }
+
+  const { text, keyboard } = isModel
+    ? buildModelPicker(session)
+    : buildModePicker(session);
+  try {
+    await ctx.editMessageText(text, {
+      parse_mode: "HTML",
+      reply_markup: keyboard,
+    });
+  } catch (error) {
+    console.debug("Failed to edit settings picker:", error);
+  }
+  await ctx.answerCallbackQuery({
+    text: isModel
+      ? `Model: ${session.model || "CLI default"}`
+      : `Mode: ${session.permissionMode}`,
+  });
+}
+
+/**
+ * Handle /queue edit callbacks. Refreshes the queue message in place.
+ */
+async function handleQueueCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const session = getSession(ctx);
+  const [, action, idStr] = callbackData.split(":");
+  const id = parseInt(idStr || "", 10);
+
+  let notice: string;
+  if (action === "drop") {
+    notice = session.dropQueued(id) ? "Dropped" : "Already processed";
+  } else if (action === "front") {
+    notice = session.moveQueuedToFront(id) ? "Moved to front" : "Already processed";
+  } else if (action === "merge") {
+    const merged = session.mergeQueue();
+    notice = merged > 1 ? `Merged ${merged} messages` : "Nothing to merge";
+  } else if (action === "clear") {
+    notice = `Cleared ${session.clearQueue()}`;
+  } else {
+    await ctx.answerCallbackQuery({ text: "Unknown queue action" });
+    return;
+  }
+
+  const { text, keyboard } = buildQueueMessage(session);
+  try {
+    await ctx.editMessageText(text, {
+      parse_mode: "HTML",
+      reply_markup: keyboard,
+    });
+  } catch (error) {
+    console.debug("Failed to edit queue message:", error);
+  }
+  await ctx.answerCallbackQuery({ text: notice });
+}
+
+/**
+ * Handle background job buttons from /jobs and job summaries.
+ */
+async function handleJobCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const [, action, idStr] = callbackData.split(":");
+  const key = getSessionKey(ctx);
+
+  if (action === "refresh" || action === "cancel") {
+    if (action === "cancel") {
+      const cancelled = cancelJob(parseInt(idStr || "", 10), key);
+      await ctx.answerCallbackQuery({
+        text: cancelled ? "Job cancelled" : "Job already finished",
+      });
+    } else {
+      await ctx.answerCallbackQuery();
+    }
+
+    const { text, keyboard } = buildJobsMessage(key);
+    try {
+      await ctx.editMessageText(text, {
+        parse_mode: "HTML",
+        reply_markup: keyboard,
+      });
+    } catch (error) {
+      console.debug("Failed to refresh jobs message:", error);
+    }
+    return;
+  }
+
+  const job = getJob(parseInt(idStr || "", 10));
+  if (!job || job.chatKey !== key) {
+    await ctx.answerCallbackQuery({ text: "Job no longer available" });
+    return;
+  }
+
+  if (action === "output") {
+    await ctx.answerCallbackQuery({ text: "Sending output..." });
+    try {
+      await ctx.replyWithDocument(
+        new InputFile(job.logPath, `job-${job.id}.log`),
+        { caption: `Background job #${job.id} output` }
+      );
+    } catch (error) {
+      console.error("Failed to send job output:", error);
+      await ctx.reply("❌ Job output is no longer available.");
+    }
+    return;
+  }
+
+  if (action === "continue") {
+    if (!job.sessionId) {
+      await ctx.answerCallbackQuery({ text: "Job has no session" });
+      return;
+    }
+
+    const session = sessionManager.create(key, `job #${job.id}`);
+    const [success, message] = session.resumeSession(job.sessionId);
+    if (!success) {
+      await sessionManager.close(key, session.id);
+      await ctx.answerCallbackQuery({ text: message.slice(0, 200) });
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "Switched to the job's session" });
+    await ctx.reply(
+      `💬 Continuing background job #${job.id} in session "${session.name}". ` +
+        `Send a message to pick up where it left off.`
+    );
+    return;
+  }
+
+  await ctx.answerCallbackQuery({ text: "Unknown action" });
+}
+
+/**
+ * Handle the action bar's "What did you do?": activity:{id}. The log goes in
+ * an expandable quote, or in a text file if it doesn't fit in a message.
+ */
+async function handleActivityCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const log = getActivityLog(parseInt(callbackData.slice("activity:".length), 10));
+  if (!log) {
+    await ctx.answerCallbackQuery({ text: "That activity log is no longer available" });
+    return;
+  }
+  await ctx.answerCallbackQuery();
+
+  const html = log.toHtml();
+  if (html.length <= TELEGRAM_SAFE_LIMIT) {
+    await ctx.reply(html, { parse_mode: "HTML", disable_notification: true });
+    return;
+  }
+  await ctx.replyWithDocument(
+    new InputFile(Buffer.from(log.toText(), "utf-8"), `activity-${log.startedAt}.txt`),
+    { caption: `🔍 What I did · ${log.tools.length} tool calls`, disable_notification: true }
+  );
+}
+
+// Longer diffs are sent as a .diff file
+const MAX_INLINE_DIFF = 3500;
+
+/**
+ * Handle checkpoint callbacks: undo (action bar) and restore (/checkpoints)
+ * put the files back to before that turn; diff shows what the turn changed.
+ */
+async function handleCheckpointCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const [, action, id] = callbackData.split(":");
+  const session = getSession(ctx);
+
+  let checkpoint;
+  try {
+    checkpoint = await getCheckpoint(session.currentWorkingDir, session.key, id || "");
+  } catch (error) {
+    console.error("Failed to read checkpoints:", error);
+  }
+  if (!checkpoint) {
+    await ctx.answerCallbackQuery({
+      text: "Checkpoint not found (pruned, or a different working directory)",
+      show_alert: true,
+    });
+    return;
+  }
+
+  if (action === "diff") {
+    await ctx.answerCallbackQuery({ text: "Building diff..." });
+    try {
+      const { stat, patch } = await diffCheckpoint(checkpoint);
+      if (!patch) {
+        await ctx.reply("📄 No file changes.");
+      } else if (patch.length <= MAX_INLINE_DIFF) {
+        await ctx.reply(`<pre>${escapeHtml(patch)}</pre>`, { parse_mode: "HTML" });
+      } else {
+        await ctx.replyWithDocument(
+          new InputFile(Buffer.from(patch), `checkpoint-${checkpoint.id}.diff`),
+          { caption: stat.split("\n").pop()?.trim() || "Diff" }
+        );
+      }
+    } catch (error) {
+      console.error("Failed to diff checkpoint:", error);
+      await ctx.reply(`❌ Diff failed: ${String(error).slice(0, 200)}`);
+    }
+    return;
+  }
+
+  if (action !== "undo" && action !== "restore") {
+    await ctx.answerCallbackQuery({ text: "Unknown action" });
+    return;
+  }
+
+  // Restoring would overwrite the edits of any session working in the repository
+  const busy = sessionManager
+    .all()
+    .find((s) => s.isRunning && isInCheckpointRepo(checkpoint, s.currentWorkingDir));
+  if (busy) {
+    await ctx.answerCallbackQuery({
+      text:
+        busy === session
+          ? "Claude is still working — wait for it to finish or /stop first"
+          : `Session "${busy.name}" is working in this repository — wait for it to finish or stop it first`,
+      show_alert: true,
+    });
+    return;
+  }
+
+  await ctx.answerCallbackQuery({ text: "Restoring..." });
+  try {
+    const { files, undo } = await restoreCheckpoint(checkpoint, session.key);
+    if (files === 0) {
+      await ctx.reply("↩ Nothing to restore — the files already match.");
+      return;
+    }
+    await ctx.reply(
+      `↩ Restored ${files} file${files === 1 ? "" : "s"} to before ` +
+        `<i>${escapeHtml(checkpoint.prompt.slice(0, 80))}</i>.`,
+      {
+        parse_mode: "HTML",
+        reply_markup: undo
+          ? {
+              inline_keyboard: [
+                [{ text: "↪ Redo", callback_data: `ckpt:undo:${undo.id}` }],
+              ],
+            }
+          : undefined,
+      }
+    );
+  } catch (error) {
+    console.error("Failed to restore checkpoint:", error);
+    await ctx.reply(`❌ Restore failed: ${String(error).slice(0, 200)}`);
+  }
+}
+
+/**
+ * Handle replay callbacks (replay:run, replay:discard) offered at startup.
+ * Each session's prompts are replayed in the conversation they belong to
+ * (resumed in the session of the same name), interrupted prompt first.
+ */
+async function handleReplayCallback(
+  ctx: Context,
+  callbackData: string
+): Promise<void> {
+  const key = getSessionKey(ctx);
+  const action = callbackData.split(":")[1];
+
+  let items;
+  try {
+    items = takeOrphanedWork(key);
+  } catch (error) {
+    console.error("Failed to load pending work:", error);
+    await ctx.answerCallbackQuery({ text: "Failed to load queued work" });
+    return;
+  }
+
+  if (items.length === 0) {
+    await ctx.answerCallbackQuery({ text: "Nothing left to resume" });
+    try {
+      await ctx.editMessageReplyMarkup();
+    } catch (error) {
+      console.debug("Failed to remove replay buttons:", error);
+    }
+    return;
+  }
+
+  const plural = items.length === 1 ? "" : "s";
+  if (action === "discard") {
+    try {
+      await ctx.editMessageText(`🗑 Discarded ${items.length} message${plural}`);
+    } catch (error) {
+      console.debug("Failed to edit replay message:", error);
+    }
+    await ctx.answerCallbackQuery({ text: "Discarded" });
+    return;
+  }
+
+  try {
+    await ctx.editMessageText(`▶️ Resuming ${items.length} message${plural}`);
+  } catch (error) {
+    console.debug("Failed to edit replay message:", error);
+  }
+  await ctx.answerCallbackQuery({ text: "Resuming" });
+
+  // Prompts per session they were sent to, in order
+  const groups = new Map<string, typeof items>();
+  for (const item of items) {
+    const group = `${item.session_name}\0${item.session_id || ""}`;
+    groups.set(group, [...(groups.get(group) || []), item]);
+  }
+
+  const active = getSession(ctx);
+  const replays: Array<Promise<void>> = [];
+  for (const group of groups.values()) {
+    const { session_name: name, session_id: sessionId } = group[0]!;
+
+    // The session of that name, or a new one if it's busy with other work
+    let target = sessionManager.list(key).find((s) => s.name === name);
+    if (!target || (target.isRunning && target.sessionId !== sessionId)) {
+      target = sessionManager.create(key, name);
+    }
+    if (sessionId && target.sessionId !== sessionId) {
+      const [success, message] = target.resumeSession(sessionId);
+      if (!success) {
+        await ctx.reply(
+          `⚠️ ${escapeHtml(message)} — replaying in a new conversation.`,
+          { parse_mode: "HTML" }
+        );
+      }
+    }
+
+    // Queue everything behind the first prompt; processTextMessage drains the queue
+    const first = target.isRunning ? null : group[0]!;
+    let dropped = 0;
+    for (const item of first ? group.slice(1) : group) {
+      if (!target.queueMessage({ ctx, text: item.prompt })) dropped++;
+    }
+    if (dropped > 0) {
+      await ctx.reply(`⚠️ Queue full — ${dropped} message${dropped === 1 ? "" : "s"} dropped.`);
+    }
+
+    if (first) {
+      const { processTextMessage } = await import("./text");
+      replays.push(processTextMessage(ctx, target, first.prompt));
+    }
+  }
+
+  // Creating sessions switched to them: go back to the one the user was in
+  sessionManager.switchTo(key, active.id);
+  await Promise.all(replays);
+}
+
 /**
  * Handle resume session callback (resume:{session_id}).
  */
@@ -279,6 +829,7 @@ async function handleResumeCallback(
   const userId = ctx.from?.id;
   const username = ctx.from?.username || "unknown";
   const chatId = ctx.chat?.id;
+  const session = getSession(ctx);
   const sessionId = callbackData.replace("resume:", "");
 
   if (!sessionId || !userId || !chatId) {
@@ -314,7 +865,7 @@ async function handleResumeCallback(
 
   const typing = startTypingIndicator(ctx);
   const state = new StreamingState();
-  const statusCallback = createStatusCallback(ctx, state);
+  const statusCallback = createStatusCallback(ctx, state, session);
 
   try {
     await session.sendMessageStreaming(
@@ -340,6 +891,7 @@ async function handleProjectCallback(
   ctx: Context,
   callbackData: string
 ): Promise<void> {
+  const session = getSession(ctx);
   const index = parseInt(callbackData.replace("project:", ""), 10);
 
   // Re-parse registry with same sort order
@@ -421,6 +973,7 @@ async function handleGsdCallback(
 ): Promise<void> {
   const username = ctx.from?.username || "unknown";
   const userId = ctx.from?.id!;
+  const session = getSession(ctx);
   const operation = callbackData.replace("gsd:", "");
 
   // Find the matching operation
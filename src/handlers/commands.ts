@@ -1,20 +1,53 @@
 /**
  * Command handlers for Claude Telegram Bot.
  *
- * /start, /new, /stop, /status, /resume, /restart
+ * /start, /new, /stop, /status, /resume, /sessions, /fork, /queue, /model, /mode, /think,
+ * /timeout, /bg, /jobs, /checkpoints, /usage, /restart
  */
 
 import type { Context } from "grammy";
 import { writeFileSync, readFileSync, existsSync } from "fs";
 import { join } from "path";
-import { session } from "../session";
-import { ALLOWED_USERS, RESTART_FILE } from "../config";
+import {
+  getSession,
+  getSessionKey,
+  sessionManager,
+  type ClaudeSession,
+  type ForkPoint,
+  type QueuedKind,
+} from "../session";
+import {
+  ALLOWED_USERS,
+  DEFAULT_MODEL,
+  MAX_QUEUE_SIZE,
+  PERMISSION_MODES,
+  QUERY_HARD_TIMEOUT_MS,
+  QUERY_TIMEOUT_MS,
+  RESTART_FILE,
+} from "../config";
+import type { PermissionMode } from "../types";
+import {
+  THINKING_SETTINGS,
+  formatThinkingLevel,
+  type ThinkingSetting,
+} from "../thinking";
 import { isAuthorized } from "../security";
-import { auditLog, sleep, startTypingIndicator } from "../utils";
+import {
+  auditLog,
+  queryTimeoutReply,
+  sleep,
+  startTypingIndicator,
+} from "../utils";
 import { parseRegistry } from "../registry";
+import { getToolPolicy } from "../tool-policy";
 import { searchVault, formatResults } from "../vault-search";
+import { buildUsageReport, type UsageReport } from "../usage";
+import { buildJobsMessage, startJob } from "../jobs";
+import { buildCheckpointsMessage } from "../checkpoints";
+import { registerActivityLog } from "../activity";
 import { StreamingState, createStatusCallback } from "./streaming";
 import {
+  escapeHtml,
   extractGsdCommands,
   buildActionKeyboard,
 } from "../formatting";
@@ -74,6 +107,7 @@ export function parseRoadmap(workingDir: string): RoadmapPhase[] {
 export async function handleStart(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
   const username = ctx.from?.username || "unknown";
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized. Contact the bot owner for access.");
@@ -89,17 +123,28 @@ export async function handleStart(ctx: Context): Promise<void> {
       `Working directory: <code>${workDir}</code>\n\n` +
       `<b>Commands:</b>\n` +
       `/new - Start fresh session\n` +
+      `/sessions - Switch between parallel sessions\n` +
+      `/fork [title] - Branch the conversation into a new session (or 🍴 Fork under any earlier turn)\n` +
+      `/queue - Show and edit queued messages\n` +
+      `/model - Choose the Claude model\n` +
+      `/mode - Choose the permission mode\n` +
+      `/think - Set extended thinking (off, normal, deep, auto)\n` +
+      `/timeout - Turn query timeouts on or off\n` +
+      `/bg &lt;prompt&gt; - Run a prompt as a background job\n` +
+      `/jobs - List and cancel background jobs\n` +
+      `/checkpoints - Undo Claude's file edits\n` +
       `/clear - Clear context\n` +
       `/stop - Stop current query\n` +
       `/status - Show detailed status\n` +
+      `/usage - Token and cost report (today, week, project)\n` +
       `/project - Switch project\n` +
       `/gsd - GSD operations\n` +
-      `/resume - Resume last session\n` +
+      `/resume - Resume a session (/resume &lt;text&gt; filters)\n` +
       `/retry - Retry last message\n` +
       `/restart - Restart the bot\n\n` +
       `<b>Tips:</b>\n` +
       `• Prefix with <code>!</code> to interrupt current query\n` +
-      `• Use "think" keyword for extended reasoning\n` +
+      `• Use "think" (or "ultrathink") for extended reasoning\n` +
       `• Send photos, voice, or documents`,
     { parse_mode: "HTML" }
   );
@@ -110,6 +155,7 @@ export async function handleStart(ctx: Context): Promise<void> {
  */
 export async function handleNew(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -136,6 +182,7 @@ export async function handleNew(ctx: Context): Promise<void> {
  */
 export async function handleClear(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -162,6 +209,7 @@ export async function handleClear(ctx: Context): Promise<void> {
  */
 export async function handleStop(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -185,6 +233,7 @@ export async function handleStop(ctx: Context): Promise<void> {
  */
 export async function handleStatus(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -194,11 +243,55 @@ export async function handleStatus(ctx: Context): Promise<void> {
   const lines: string[] = ["📊 <b>Bot Status</b>\n"];
 
   // Session status
-  if (session.isActive) {
+  const openSessions = sessionManager.list(session.key).length;
+  if (openSessions > 1) {
+    lines.push(
+      `🗂 Session: <b>${escapeHtml(session.name)}</b> (${openSessions} open, /sessions)`
+    );
+  }
+  if (session.forkedFrom) {
+    lines.push(
+      `🍴 Session: Fork of ${session.forkedFrom.sessionId.slice(0, 8)}... (starts with your next message)`
+    );
+  } else if (session.isActive) {
     lines.push(`✅ Session: Active (${session.sessionId?.slice(0, 8)}...)`);
   } else {
     lines.push("⚪ Session: None");
   }
+  lines.push(
+    `🧠 Model: <code>${escapeHtml(modelLabel(session))}</code> · 🔐 Mode: <code>${session.permissionMode}</code>`
+  );
+  const modeWarning = permissionModeWarning(session);
+  if (modeWarning) {
+    lines.push(`   <i>${modeWarning}</i>`);
+  }
+  const lastThinking = session.lastThinkingLevel
+    ? `, last query: ${formatThinkingLevel(session.lastThinkingLevel)}`
+    : "";
+  lines.push(`💭 Thinking: ${session.thinking}${lastThinking}`);
+  if (!session.timeoutsEnabled) {
+    lines.push("⏱ Timeouts: off");
+  }
+
+  // Tool policy (global, or overridden by the current project)
+  const policy = getToolPolicy(session.currentWorkingDir);
+  const policyParts = (["allow", "deny", "ask"] as const)
+    .filter((list) => policy[list].length > 0)
+    .map((list) => `${list}: ${escapeHtml(policy[list].join(", "))}`);
+  if (policyParts.length > 0) {
+    const source = policy.project
+      ? `project ${escapeHtml(policy.project)}`
+      : "global";
+    lines.push(`🧰 Tools (${source}): ${policyParts.join(" · ")}`);
+    if (policy.ask.length > 0 && session.permissionMode === "bypass") {
+      lines.push("   <i>ask rules only apply outside bypass mode (/mode)</i>");
+    }
+  }
+  if (session.approvedTools.size > 0) {
+    lines.push(
+      `♾ Always allowed: ${escapeHtml([...session.approvedTools].join(", "))}`
+    );
+  }
 
   // Query status
   if (session.isRunning) {
@@ -209,6 +302,9 @@ export async function handleStatus(ctx: Context): Promise<void> {
     if (session.currentTool) {
       lines.push(`   └─ ${session.currentTool}`);
     }
+    if (session.queueLength > 0) {
+      lines.push(`📋 Queue: ${session.queueLength} waiting (/queue)`);
+    }
   } else {
     lines.push("⚪ Query: Idle");
     if (session.lastTool) {
@@ -237,6 +333,9 @@ export async function handleStatus(ctx: Context): Promise<void> {
         `   Cache read: ${usage.cache_read_input_tokens.toLocaleString()}`
       );
     }
+    if (session.lastCostUsd !== null) {
+      lines.push(`   Cost: $${session.lastCostUsd.toFixed(4)} (/usage for totals)`);
+    }
   }
 
   // Error status
@@ -283,10 +382,11 @@ export async function handleStatus(ctx: Context): Promise<void> {
 }
 
 /**
- * /resume - Show list of sessions to resume with inline keyboard.
+ * /resume [filter] - Show a paged list of sessions to resume with inline keyboard.
  */
 export async function handleResume(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -298,18 +398,59 @@ export async function handleResume(ctx: Context): Promise<void> {
     return;
   }
 
-  // Get saved sessions
-  const sessions = session.getSessionList();
+  // Optional text filter: /resume <filter>
+  const filter = (ctx.match as string | undefined)?.trim() || "";
+  resumeFilters.set(session.key, filter);
 
-  if (sessions.length === 0) {
-    await ctx.reply("❌ No saved sessions.");
+  const page = buildResumePage(session, 0);
+  if (!page) {
+    await ctx.reply(
+      filter
+        ? `❌ No saved sessions matching "${filter}".`
+        : "❌ No saved sessions."
+    );
     return;
   }
 
+  await ctx.reply(page.text, {
+    parse_mode: "HTML",
+    reply_markup: page.keyboard,
+  });
+}
+
+// Sessions per /resume page
+const RESUME_PAGE_SIZE = 8;
+
+// Last /resume filter per session key, reused when paging
+const resumeFilters = new Map<string, string>();
+
+/**
+ * Build one page of the /resume picker, or null if there are no sessions.
+ */
+export function buildResumePage(
+  session: ClaudeSession,
+  offset: number
+): {
+  text: string;
+  keyboard: { inline_keyboard: { text: string; callback_data: string }[][] };
+} | null {
+  const filter = resumeFilters.get(session.key) || "";
+  const { sessions, total } = session.getSessionList({
+    filter,
+    limit: RESUME_PAGE_SIZE,
+    offset,
+  });
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  const currentDir = session.currentWorkingDir.replace(/\\/g, "/");
+
   // Build inline keyboard with session list
   const buttons = sessions.map((s) => {
     // Format date: "18/01 10:30"
-    const date = new Date(s.saved_at);
+    const date = new Date(s.last_used_at);
     const dateStr = date.toLocaleDateString("en-US", {
       day: "2-digit",
       month: "2-digit",
@@ -323,20 +464,564 @@ export async function handleResume(ctx: Context): Promise<void> {
     const titlePreview =
       s.title.length > 35 ? s.title.slice(0, 32) + "..." : s.title;
 
+    // Show the project for sessions from another working directory
+    const dir = s.working_dir.replace(/\\/g, "/");
+    const project =
+      dir && dir !== currentDir ? ` [${dir.split("/").pop() || dir}]` : "";
+
     return [
       {
-        text: `📅 ${dateStr} ${timeStr} - "${titlePreview}"`,
+        text: `📅 ${dateStr} ${timeStr} - "${titlePreview}"${project}`,
         callback_data: `resume:${s.session_id}`,
       },
     ];
   });
 
-  await ctx.reply("📋 <b>Saved Sessions</b>\n\nSelect a session to resume:", {
-    parse_mode: "HTML",
-    reply_markup: {
-      inline_keyboard: buttons,
-    },
+  // Paging row
+  const nav: { text: string; callback_data: string }[] = [];
+  if (offset > 0) {
+    nav.push({
+      text: "◀ Newer",
+      callback_data: `resume-page:${Math.max(0, offset - RESUME_PAGE_SIZE)}`,
+    });
+  }
+  if (offset + sessions.length < total) {
+    nav.push({
+      text: "Older ▶",
+      callback_data: `resume-page:${offset + RESUME_PAGE_SIZE}`,
+    });
+  }
+  if (nav.length > 0) {
+    buttons.push(nav);
+  }
+
+  const range = `${offset + 1}–${offset + sessions.length} of ${total}`;
+  const filterText = filter
+    ? ` matching <code>${escapeHtml(filter)}</code>`
+    : "";
+
+  return {
+    text:
+      `📋 <b>Saved Sessions</b>${filterText} (${range})\n\n` +
+      `Select a session to resume:`,
+    keyboard: { inline_keyboard: buttons },
+  };
+}
+
+/**
+ * Build the /sessions overview text and keyboard for a chat.
+ */
+export function buildSessionsMessage(key: string): {
+  text: string;
+  keyboard: { inline_keyboard: { text: string; callback_data: string }[][] };
+} {
+  const sessions = sessionManager.list(key);
+  const canClose = sessions.length > 1;
+
+  const lines: string[] = ["🗂 <b>Sessions</b>\n"];
+  const buttons: { text: string; callback_data: string }[][] = [];
+
+  for (const s of sessions) {
+    const dir = s.currentWorkingDir.replace(/\\/g, "/");
+    const project = dir.split("/").pop() || dir;
+    let state = "idle";
+    if (s.isRunning) {
+      const elapsed = s.queryStarted
+        ? Math.floor((Date.now() - s.queryStarted.getTime()) / 1000)
+        : 0;
+      state = `🔄 running (${elapsed}s)`;
+    } else if (!s.isActive) {
+      state = "empty";
+    }
+
+    const marker = s.isForeground ? "▶" : "•";
+    lines.push(
+      `${marker} <b>${escapeHtml(s.name)}</b> — ${state} · <code>${escapeHtml(project)}</code>`
+    );
+    if (s.conversationTitle) {
+      lines.push(`   <i>${escapeHtml(s.conversationTitle)}</i>`);
+    }
+
+    const label = `${s.isForeground ? "▶ " : ""}${s.name}${
+      s.isRunning ? " 🔄" : ""
+    }`;
+    const row = [{ text: label, callback_data: `sessions:switch:${s.id}` }];
+    if (canClose) {
+      row.push({ text: "✖", callback_data: `sessions:close:${s.id}` });
+    }
+    buttons.push(row);
+  }
+
+  buttons.push([{ text: "➕ New session", callback_data: "sessions:new" }]);
+  lines.push("\nMessages go to the ▶ active session.");
+
+  return { text: lines.join("\n"), keyboard: { inline_keyboard: buttons } };
+}
+
+/**
+ * /sessions - List this chat's parallel sessions and switch between them.
+ * `/sessions new [name]` creates a new session and makes it active.
+ */
+export async function handleSessions(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const key = getSessionKey(ctx);
+  const args = (ctx.match as string | undefined)?.trim() || "";
+
+  if (args === "new" || args.startsWith("new ")) {
+    const created = sessionManager.create(key, args.slice(3));
+    await ctx.reply(
+      `🆕 Created session <b>${escapeHtml(created.name)}</b> — now active.`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const { text, keyboard } = buildSessionsMessage(key);
+  await ctx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+}
+
+const QUEUE_KIND_EMOJI: Record<QueuedKind, string> = {
+  text: "💬",
+  photo: "📷",
+  document: "📄",
+  voice: "🎤",
+  audio: "🎵",
+  video: "📹",
+};
+
+/**
+ * Build the /queue listing and its edit buttons for a session.
+ */
+export function buildQueueMessage(session: ClaudeSession): {
+  text: string;
+  keyboard?: { inline_keyboard: { text: string; callback_data: string }[][] };
+} {
+  const items = session.queuedMessages;
+  if (items.length === 0) {
+    return { text: "📭 Queue is empty." };
+  }
+
+  const lines: string[] = [
+    `📋 <b>Queue</b> (${items.length}/${MAX_QUEUE_SIZE})${
+      sessionManager.list(session.key).length > 1
+        ? ` · ${escapeHtml(session.name)}`
+        : ""
+    }\n`,
+  ];
+  const buttons: { text: string; callback_data: string }[][] = [];
+
+  items.forEach((item, i) => {
+    const raw = (item.preview || item.text).replace(/\s+/g, " ").trim();
+    const preview = raw.length > 80 ? raw.slice(0, 77) + "..." : raw;
+    lines.push(
+      `${i + 1}. ${QUEUE_KIND_EMOJI[item.kind || "text"]} ${escapeHtml(preview)}`
+    );
+
+    const row = [{ text: `✖ ${i + 1}`, callback_data: `queue:drop:${item.id}` }];
+    if (i > 0) {
+      row.push({ text: `⬆ ${i + 1}`, callback_data: `queue:front:${item.id}` });
+    }
+    buttons.push(row);
   });
+
+  const bottom = [{ text: "🗑 Clear", callback_data: "queue:clear" }];
+  if (items.length > 1) {
+    bottom.unshift({ text: "🔗 Merge all", callback_data: "queue:merge" });
+  }
+  buttons.push(bottom);
+
+  return { text: lines.join("\n"), keyboard: { inline_keyboard: buttons } };
+}
+
+/**
+ * /queue - List messages waiting for the active session, with edit buttons.
+ */
+export async function handleQueue(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const { text, keyboard } = buildQueueMessage(getSession(ctx));
+  await ctx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+}
+
+// ============== Model & Permission Mode ==============
+
+const MODEL_CHOICES = [
+  { id: "opus", label: "Opus" },
+  { id: "sonnet", label: "Sonnet" },
+  { id: "haiku", label: "Haiku" },
+];
+
+// Model aliases and IDs like "claude-sonnet-4-5" or "claude-opus-4-1[1m]"
+const MODEL_ID_PATTERN = /^[\w.:\-\[\]]{1,80}$/;
+
+const PERMISSION_MODE_LABELS: Record<PermissionMode, string> = {
+  plan: "📝 Plan — read-only, proposes a plan",
+  acceptEdits: "✏️ Accept edits — file edits allowed",
+  default: "🔒 Default — asks in Telegram before tools that need approval",
+  bypass: "⚡ Bypass — no permission checks",
+};
+
+/**
+ * Warn when a session's mode needs approval prompts but they can't be shown.
+ */
+function permissionModeWarning(session: ClaudeSession): string {
+  return session.permissionMode !== "bypass" && !session.asksForPermission
+    ? "⚠️ The ask-user MCP server isn't configured, so tools that need approval are denied instead of asked for."
+    : "";
+}
+
+/**
+ * Describe a session's model for display.
+ */
+export function modelLabel(session: ClaudeSession): string {
+  return session.model || "CLI default";
+}
+
+/**
+ * Build the /model picker for a session.
+ */
+export function buildModelPicker(session: ClaudeSession): {
+  text: string;
+  keyboard: { inline_keyboard: { text: string; callback_data: string }[][] };
+} {
+  const current = session.model;
+  const row = MODEL_CHOICES.map((m) => ({
+    text: `${m.id === current ? "✓ " : ""}${m.label}`,
+    callback_data: `model:${m.id}`,
+  }));
+  const defaultLabel = DEFAULT_MODEL ? `Default (${DEFAULT_MODEL})` : "Default";
+
+  return {
+    text:
+      `🧠 <b>Model</b>: <code>${escapeHtml(modelLabel(session))}</code>\n\n` +
+      `Pick one, or send <code>/model &lt;model-id&gt;</code> for a specific model.`,
+    keyboard: {
+      inline_keyboard: [
+        row,
+        [
+          {
+            text: `${current === DEFAULT_MODEL ? "✓ " : ""}${defaultLabel}`,
+            callback_data: "model:default",
+          },
+        ],
+      ],
+    },
+  };
+}
+
+/**
+ * Build the /mode picker for a session.
+ */
+export function buildModePicker(session: ClaudeSession): {
+  text: string;
+  keyboard: { inline_keyboard: { text: string; callback_data: string }[][] };
+} {
+  const warning = permissionModeWarning(session);
+  return {
+    text:
+      `🔐 <b>Permission mode</b>: <code>${session.permissionMode}</code>\n\n` +
+      PERMISSION_MODES.map((m) => PERMISSION_MODE_LABELS[m]).join("\n") +
+      (warning ? `\n\n${warning}` : ""),
+    keyboard: {
+      inline_keyboard: PERMISSION_MODES.map((m) => [
+        {
+          text: `${m === session.permissionMode ? "✓ " : ""}${m}`,
+          callback_data: `mode:${m}`,
+        },
+      ]),
+    },
+  };
+}
+
+/**
+ * Set a session's model from a picker choice or /model argument.
+ * "default" restores CLAUDE_MODEL. Returns false if the ID looks invalid.
+ */
+export function applyModel(session: ClaudeSession, choice: string): boolean {
+  if (choice === "default") {
+    session.model = DEFAULT_MODEL;
+    return true;
+  }
+  if (!MODEL_ID_PATTERN.test(choice)) {
+    return false;
+  }
+  session.model = choice;
+  console.log(`[${session.key}] Model set to ${choice}`);
+  return true;
+}
+
+/**
+ * Set a session's permission mode. Returns false for unknown modes.
+ */
+export function applyPermissionMode(
+  session: ClaudeSession,
+  mode: string
+): boolean {
+  if (!PERMISSION_MODES.includes(mode as PermissionMode)) {
+    return false;
+  }
+  session.permissionMode = mode as PermissionMode;
+  console.log(`[${session.key}] Permission mode set to ${mode}`);
+  return true;
+}
+
+/**
+ * /model [id] - Show the model picker, or set the model directly.
+ */
+export async function handleModel(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const arg = (ctx.match as string | undefined)?.trim();
+  if (arg) {
+    if (!applyModel(session, arg)) {
+      await ctx.reply("❌ That doesn't look like a model ID.");
+      return;
+    }
+    await ctx.reply(
+      `🧠 Model: <code>${escapeHtml(modelLabel(session))}</code> (from the next message)`,
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const { text, keyboard } = buildModelPicker(session);
+  await ctx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+}
+
+/**
+ * /mode [mode] - Show the permission mode picker, or set the mode directly.
+ */
+export async function handleMode(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const arg = (ctx.match as string | undefined)?.trim();
+  if (arg) {
+    if (!applyPermissionMode(session, arg)) {
+      await ctx.reply(`❌ Unknown mode. Use one of: ${PERMISSION_MODES.join(", ")}`);
+      return;
+    }
+    const warning = permissionModeWarning(session);
+    await ctx.reply(
+      `🔐 Permission mode: <code>${session.permissionMode}</code> (from the next message)` +
+        (warning ? `\n${warning}` : ""),
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const { text, keyboard } = buildModePicker(session);
+  await ctx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+}
+
+/**
+ * /think [off|normal|deep|auto] - Show or set the session's thinking override.
+ */
+export async function handleThink(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const arg = (ctx.match as string | undefined)?.trim().toLowerCase();
+  if (arg) {
+    if (!THINKING_SETTINGS.includes(arg as ThinkingSetting)) {
+      await ctx.reply(`❌ Unknown level. Use one of: ${THINKING_SETTINGS.join(", ")}`);
+      return;
+    }
+    session.thinking = arg as ThinkingSetting;
+  }
+
+  const current =
+    session.thinking === "auto"
+      ? "auto (keywords like “think” or “ultrathink” in your message)"
+      : formatThinkingLevel(session.thinking);
+  await ctx.reply(
+    `🧠 Thinking: <b>${escapeHtml(current)}</b>` +
+      (arg ? "" : `\n\nUsage: <code>/think off|normal|deep|auto</code>`),
+    { parse_mode: "HTML" }
+  );
+}
+
+/**
+ * /timeout [on|off] - Show or toggle query timeouts for this session.
+ * Turn them off for long autonomous tasks.
+ */
+export async function handleTimeout(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const arg = (ctx.match as string | undefined)?.trim().toLowerCase();
+  if (arg === "on" || arg === "off") {
+    session.timeoutsEnabled = arg === "on";
+  } else if (arg) {
+    await ctx.reply("Usage: /timeout [on|off]");
+    return;
+  }
+
+  const minutes = (ms: number) => (ms > 0 ? `${Math.round(ms / 60_000)}m` : "off");
+  await ctx.reply(
+    session.timeoutsEnabled
+      ? `⏱ Timeouts on: prompt after ${minutes(QUERY_TIMEOUT_MS)}, stop after ${minutes(QUERY_HARD_TIMEOUT_MS)}.`
+      : "⏱ Timeouts off for this session — queries run until they finish or you /stop."
+  );
+}
+
+/**
+ * /bg <prompt> - Run a prompt as a background job in its own CLI session.
+ */
+export async function handleBg(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const username = ctx.from?.username || "unknown";
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const prompt = (ctx.match as string | undefined)?.trim();
+  if (!prompt) {
+    await ctx.reply(
+      "Usage: /bg &lt;prompt&gt;\n\nRuns the prompt in a separate session in the " +
+        "current working directory. You get a summary when it finishes.",
+      { parse_mode: "HTML" }
+    );
+    return;
+  }
+
+  const job = startJob(ctx.api, session, prompt);
+  if (typeof job === "string") {
+    await ctx.reply(`❌ ${job}`);
+    return;
+  }
+
+  await auditLog(userId!, username, "BG_JOB", prompt, `job #${job.id}`);
+  await ctx.reply(
+    `⚙️ Background job #${job.id} started in <code>${escapeHtml(job.workingDir)}</code>.\n` +
+      `I'll post a summary when it's done — see /jobs to check or cancel.`,
+    { parse_mode: "HTML" }
+  );
+}
+
+/**
+ * /jobs - List this chat's background jobs, with Cancel buttons.
+ */
+export async function handleJobs(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const { text, keyboard } = buildJobsMessage(getSessionKey(ctx));
+  await ctx.reply(text, { parse_mode: "HTML", reply_markup: keyboard });
+}
+
+/**
+ * /checkpoints - List this chat's git checkpoints, with Restore and Diff buttons.
+ */
+export async function handleCheckpoints(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  try {
+    const { text, keyboard } = await buildCheckpointsMessage(
+      session.currentWorkingDir,
+      session.key
+    );
+    await ctx.reply(text, {
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  } catch (error) {
+    await ctx.reply(`❌ Could not list checkpoints: ${String(error).slice(0, 200)}`);
+  }
+}
+
+/**
+ * /usage [today|week|project] - Token and cost report.
+ */
+export async function handleUsage(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const arg = (ctx.match as string | undefined)?.trim().toLowerCase() || "";
+  const reports: UsageReport[] = ["today", "week", "project"];
+  if (arg && !reports.includes(arg as UsageReport)) {
+    await ctx.reply("Usage: /usage [today|week|project]");
+    return;
+  }
+
+  try {
+    const text = buildUsageReport((arg || "summary") as UsageReport);
+    await ctx.reply(text, { parse_mode: "HTML" });
+  } catch (error) {
+    console.error("Usage report failed:", error);
+    await ctx.reply(`❌ Usage report failed: ${String(error).slice(0, 100)}`);
+  }
+}
+
+/**
+ * /fork [title] - Branch the active session into a new parallel session.
+ */
+export async function handleFork(ctx: Context): Promise<void> {
+  const userId = ctx.from?.id;
+  const session = getSession(ctx);
+
+  if (!isAuthorized(userId, ALLOWED_USERS)) {
+    await ctx.reply("Unauthorized.");
+    return;
+  }
+
+  const point = session.forkPoint;
+  if (!point) {
+    await ctx.reply("❌ No active session to fork. Send a message first.");
+    return;
+  }
+
+  const title = (ctx.match as string | undefined)?.trim();
+  await startFork(ctx, point, title);
 }
 
 /**
@@ -360,6 +1045,7 @@ export async function handleRestart(ctx: Context): Promise<void> {
         RESTART_FILE,
         JSON.stringify({
           chat_id: chatId,
+          chat_key: getSessionKey(ctx),
           message_id: msg.message_id,
           timestamp: Date.now(),
         })
@@ -407,6 +1093,7 @@ export async function handleSearch(ctx: Context): Promise<void> {
  */
 export async function handleProject(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -504,6 +1191,7 @@ export async function handleGsd(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
   const username = ctx.from?.username || "unknown";
   const chatId = ctx.chat?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -570,14 +1258,96 @@ export async function handleGsd(ctx: Context): Promise<void> {
 
 // ============== Action Bar Tracking ==============
 
-let lastActionBarMsg: { chatId: number; messageId: number } | null = null;
+// Last action bar per session key, so each chat only replaces its own bar
+const lastActionBarMsgs = new Map<
+  string,
+  { chatId: number; messageId: number; forkPointId?: number }
+>();
+
+export function setLastActionBar(
+  key: string,
+  chatId: number,
+  messageId: number,
+  forkPointId?: number
+) {
+  lastActionBarMsgs.set(key, { chatId, messageId, forkPointId });
+}
+
+/**
+ * Take down a chat's previous action bar before posting a new one. A bar
+ * with a Fork button keeps just that button, so every earlier turn can
+ * still be branched from.
+ */
+export async function retireLastActionBar(ctx: Context, key: string): Promise<void> {
+  const bar = lastActionBarMsgs.get(key);
+  if (!bar) return;
+  lastActionBarMsgs.delete(key);
+  try {
+    if (bar.forkPointId === undefined) {
+      await ctx.api.deleteMessage(bar.chatId, bar.messageId);
+    } else {
+      await ctx.api.editMessageReplyMarkup(bar.chatId, bar.messageId, {
+        reply_markup: {
+          inline_keyboard: [[{ text: "🍴 Fork", callback_data: `fork:${bar.forkPointId}` }]],
+        },
+      });
+    }
+  } catch (error) {
+    console.debug("Failed to retire action bar:", error);
+  }
+}
+
+// ============== Fork Points ==============
+
+// Fork buttons reference turns by a short ID (callback data is capped at 64 bytes)
+const MAX_FORK_POINTS = 200;
+const forkPoints = new Map<number, ForkPoint>();
+let nextForkPointId = 1;
+
+/**
+ * Remember where a session's latest turn ends, for that turn's action bar
+ * "Fork" button (one point per turn; the button outlives the bar's other
+ * buttons). Returns undefined if the session has nothing to fork yet.
+ */
+export function registerForkPoint(session: ClaudeSession): number | undefined {
+  const point = session.forkPoint;
+  if (!point) return undefined;
+
+  const id = nextForkPointId++;
+  forkPoints.set(id, point);
+  if (forkPoints.size > MAX_FORK_POINTS) {
+    forkPoints.delete(forkPoints.keys().next().value!);
+  }
+  return id;
+}
 
-export function setLastActionBar(chatId: number, messageId: number) {
-  lastActionBarMsg = { chatId, messageId };
+export function getForkPoint(id: number): ForkPoint | null {
+  return forkPoints.get(id) || null;
 }
 
-export function getLastActionBar() {
-  return lastActionBarMsg;
+/**
+ * Branch a new parallel session off `point`, make it active and tell the user.
+ */
+export async function startFork(
+  ctx: Context,
+  point: ForkPoint,
+  title?: string
+): Promise<void> {
+  const key = getSessionKey(ctx);
+  let forked: ClaudeSession;
+  try {
+    forked = sessionManager.fork(key, point, title);
+  } catch (error) {
+    await ctx.reply(`❌ Fork failed: ${String(error).slice(0, 100)}`);
+    return;
+  }
+
+  await ctx.reply(
+    `🍴 Forked into <b>${escapeHtml(forked.name)}</b> — now active.\n` +
+      `<i>${escapeHtml(forked.conversationTitle || "")}</i>\n\n` +
+      `Your next message continues the branch; the original stays in /sessions.`,
+    { parse_mode: "HTML" }
+  );
 }
 
 /**
@@ -592,6 +1362,8 @@ export async function sendGsdCommand(
   userId: number,
   chatId: number
 ): Promise<void> {
+  const session = getSession(ctx);
+
   // Interrupt any running query
   if (session.isRunning) {
     await session.stop();
@@ -601,7 +1373,7 @@ export async function sendGsdCommand(
 
   const typing = startTypingIndicator(ctx);
   const state = new StreamingState();
-  const statusCallback = createStatusCallback(ctx, state);
+  const statusCallback = createStatusCallback(ctx, state, session);
 
   try {
     const response = await session.sendMessageStreaming(
@@ -615,12 +1387,20 @@ export async function sendGsdCommand(
 
     await auditLog(userId, username, "GSD", command, response);
 
+    // Background sessions already posted their result - keep the active bar
+    if (!session.isForeground) return;
+
     // Show context bar + contextual keyboard
     const { commands: gsdCmds, hasClearSuggestion } =
       extractGsdCommands(response);
+    const forkPointId = registerForkPoint(session);
     const keyboard = buildActionKeyboard({
       gsdCommands: gsdCmds,
       hasClearSuggestion,
+      forkPointId,
+      checkpointId: session.lastCheckpoint?.id,
+      longAnswerId: state.longAnswerId ?? undefined,
+      activityId: registerActivityLog(session.activityLog),
     });
 
     const pct = session.contextPercent;
@@ -635,19 +1415,14 @@ export async function sendGsdCommand(
           })()
         : null;
 
-    // Delete old action bar
-    const oldBar = getLastActionBar();
-    if (oldBar) {
-      try {
-        await ctx.api.deleteMessage(oldBar.chatId, oldBar.messageId);
-      } catch {}
-    }
+    // Replace the old action bar (its Fork button stays)
+    await retireLastActionBar(ctx, session.key);
 
     const barMsg = await ctx.reply(barText || "—", {
       reply_markup: keyboard,
       disable_notification: true,
     });
-    setLastActionBar(chatId, barMsg.message_id);
+    setLastActionBar(session.key, chatId, barMsg.message_id, forkPointId);
   } catch (error) {
     console.error("Error processing GSD command:", error);
 
@@ -659,7 +1434,10 @@ export async function sendGsdCommand(
       }
     }
 
-    if (
+    const timeoutReply = queryTimeoutReply(error);
+    if (timeoutReply) {
+      await ctx.reply(timeoutReply);
+    } else if (
       String(error).includes("abort") ||
       String(error).includes("cancel")
     ) {
@@ -680,6 +1458,7 @@ export async function sendGsdCommand(
  */
 export async function handleRetry(ctx: Context): Promise<void> {
   const userId = ctx.from?.id;
+  const session = getSession(ctx);
 
   if (!isAuthorized(userId, ALLOWED_USERS)) {
     await ctx.reply("Unauthorized.");
@@ -701,18 +1480,7 @@ export async function handleRetry(ctx: Context): Promise<void> {
   const message = session.lastMessage;
   await ctx.reply(`🔄 Retrying: "${message.slice(0, 50)}${message.length > 50 ? "..." : ""}"`);
 
-  // Simulate sending the message again by emitting a fake text message event
-  // We do this by directly calling the text handler logic
-  const { handleText } = await import("./text");
-
-  // Create a modified context with the last message
-  const fakeCtx = {
-    ...ctx,
-    message: {
-      ...ctx.message,
-      text: message,
-    },
-  } as Context;
-
-  await handleText(fakeCtx);
+  // Re-send through the text pipeline, on the same session
+  const { processTextMessage } = await import("./text");
+  await processTextMessage(ctx, session, message);
 }
@@ -17,7 +17,7 @@ import {
 } from "fs";
 import { resolve, join } from "path";
 import { execSync } from "child_process";
-import { session } from "../session";
+import { getSession } from "../session";
 import { ALLOWED_USERS, TEMP_DIR } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import { auditLog, auditLogRateLimit, startTypingIndicator } from "../utils";
@@ -26,6 +26,7 @@ import { createMediaGroupBuffer, handleProcessingError } from "./media-group";
 import { isAudioFile, processAudioFile } from "./audio";
 import { autoDocument, formatDocReply } from "../autodoc";
 import { escapeHtml } from "../formatting";
+import { drainQueue, queueIfBusy } from "./text";
 
 // Supported text file extensions
 const TEXT_EXTENSIONS = [
@@ -262,7 +263,8 @@ async function processArchive(
   username: string,
   chatId: number
 ): Promise<void> {
-  const stopProcessing = session.startProcessing();
+  const session = getSession(ctx);
+  let stopProcessing = session.startProcessing();
   const typing = startTypingIndicator(ctx);
 
   // Show extraction progress
@@ -296,6 +298,20 @@ async function processArchive(
       ? `Archive: ${fileName}\n\nFile tree (${tree.length} files):\n${treeStr}\n\nExtracted contents:\n${contentsStr}\n\n---\n\n${caption}`
       : `Please analyze this archive (${fileName}):\n\nFile tree (${tree.length} files):\n${treeStr}\n\nExtracted contents:\n${contentsStr}`;
 
+    // Queue if another query is running (the contents are inlined in the prompt)
+    stopProcessing();
+    const queued = await queueIfBusy(session, {
+      ctx,
+      text: prompt,
+      kind: "document",
+      preview: caption || fileName,
+    });
+    if (queued) {
+      rmSync(extractDir, { recursive: true, force: true });
+      return;
+    }
+    stopProcessing = session.startProcessing();
+
     // Set conversation title (if new session)
     if (!session.isActive) {
       const rawTitle = caption || `[Archive: ${fileName}]`;
@@ -306,7 +322,7 @@ async function processArchive(
 
     // Create streaming state
     const state = new StreamingState();
-    const statusCallback = createStatusCallback(ctx, state);
+    const statusCallback = createStatusCallback(ctx, state, session);
 
     // Send "Processing..." message before Claude call
     const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -369,6 +385,8 @@ async function processArchive(
     stopProcessing();
     typing.stop();
   }
+
+  await drainQueue(session);
 }
 
 /**
@@ -382,8 +400,7 @@ async function processDocuments(
   username: string,
   chatId: number
 ): Promise<void> {
-  // Mark processing started
-  const stopProcessing = session.startProcessing();
+  const session = getSession(ctx);
 
   // Build prompt
   let prompt: string;
@@ -401,6 +418,15 @@ async function processDocuments(
       : `Please analyze these ${documents.length} documents:\n\n${docList}`;
   }
 
+  // Queue if another query is running
+  const preview = caption || documents.map((d) => d.name).join(", ");
+  if (await queueIfBusy(session, { ctx, text: prompt, kind: "document", preview })) {
+    return;
+  }
+
+  // Mark processing started
+  const stopProcessing = session.startProcessing();
+
   // Set conversation title (if new session)
   if (!session.isActive) {
     const docName = documents[0]?.name || "[Document]";
@@ -415,7 +441,7 @@ async function processDocuments(
 
   // Create streaming state
   const state = new StreamingState();
-  const statusCallback = createStatusCallback(ctx, state);
+  const statusCallback = createStatusCallback(ctx, state, session);
 
   // Send "Processing..." message before Claude call
   const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -465,6 +491,8 @@ async function processDocuments(
     stopProcessing();
     typing.stop();
   }
+
+  await drainQueue(session);
 }
 
 /**
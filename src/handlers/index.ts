@@ -9,6 +9,17 @@ export {
   handleStop,
   handleStatus,
   handleResume,
+  handleSessions,
+  handleQueue,
+  handleFork,
+  handleModel,
+  handleMode,
+  handleThink,
+  handleUsage,
+  handleTimeout,
+  handleBg,
+  handleJobs,
+  handleCheckpoints,
   handleRestart,
   handleRetry,
   handleSearch,
@@ -10,8 +10,8 @@ import type { Message } from "grammy/types";
 import type { PendingMediaGroup } from "../types";
 import { MEDIA_GROUP_TIMEOUT } from "../config";
 import { rateLimiter } from "../security";
-import { auditLogRateLimit } from "../utils";
-import { session } from "../session";
+import { auditLogRateLimit, queryTimeoutReply } from "../utils";
+import { getSession } from "../session";
 
 /**
  * Configuration for a media group handler.
@@ -180,6 +180,8 @@ export async function handleProcessingError(
   error: unknown,
   toolMessages: Message[]
 ): Promise<void> {
+  const session = getSession(ctx);
+
   console.error("Error processing media:", error);
 
   // Clean up tool messages
@@ -193,7 +195,10 @@ export async function handleProcessingError(
 
   // Send error message
   const errorStr = String(error);
-  if (errorStr.includes("abort") || errorStr.includes("cancel")) {
+  const timeoutReply = queryTimeoutReply(error);
+  if (timeoutReply) {
+    await ctx.reply(timeoutReply);
+  } else if (errorStr.includes("abort") || errorStr.includes("cancel")) {
     // Only show "Query stopped" if it was an explicit stop, not an interrupt from a new message
     const wasInterrupt = session.consumeInterruptFlag();
     if (!wasInterrupt) {
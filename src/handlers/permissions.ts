@@ -0,0 +1,374 @@
+/**
+ * Tool permission approvals for Claude Telegram Bot.
+ *
+ * Outside bypass mode the CLI asks the bot MCP server's permission_prompt
+ * tool (--permission-prompt-tool) before running a tool that needs approval.
+ * The request arrives here over IPC: obvious violations are denied right away
+ * by analyzeCommand / isPathAllowed, everything else is shown in the chat
+ * with Allow once / Always allow for this session / Deny buttons. Calls that
+ * match an "ask" rule of the tool policy are asked for every time; allow rules
+ * that --allowedTools can't carry are applied here.
+ */
+
+import type { Context } from "grammy";
+import { InlineKeyboard } from "grammy";
+import { randomUUID } from "crypto";
+import { isAbsolute, resolve } from "path";
+import { ASK_USER_TIMEOUT_MS } from "../config";
+import { escapeHtml } from "../formatting";
+import type { IpcReply, IpcRequest } from "../ipc";
+import { analyzeCommand, isPathAllowed } from "../security";
+import type { ClaudeSession } from "../session";
+import type { CommandAnalysis, CommandFinding, CommandKind } from "../types";
+import { getToolPolicy, matchesToolRule } from "../tool-policy";
+import { auditLogTool } from "../utils";
+
+export type PermissionDecision = "once" | "always" | "deny";
+
+interface PermissionRequest {
+  sessionId: number;
+  toolName: string;
+  rules: string[];
+  resolve: (decision: PermissionDecision | null) => void;
+}
+
+// Tools whose file path argument is checked against ALLOWED_PATHS
+const FILE_TOOLS: Record<string, string> = {
+  Read: "file_path",
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+// Command kinds that are asked for every time
+const NEVER_ALWAYS_ALLOWED = new Set<CommandKind>(["destructive", "network"]);
+
+const MAX_PREVIEW_LINES = 20;
+const MAX_PREVIEW_LENGTH = 2500;
+
+const pendingPermissions = new Map<string, PermissionRequest>();
+
+// ============== Rules ==============
+
+/**
+ * The "Always allow" rules a request falls under. Bash is approved per
+ * program, one rule for each simple command analyzeCommand found (e.g.
+ * "Bash(ls)", "Bash(sudo apt)"); destructive and network commands never get
+ * a rule. Other tools are approved as a whole.
+ */
+export function permissionRules(
+  toolName: string,
+  analysis?: CommandAnalysis
+): string[] {
+  if (toolName !== "Bash") return [toolName];
+  const rules = (analysis?.findings || [])
+    .filter((f) => f.program && !NEVER_ALWAYS_ALLOWED.has(f.kind))
+    .map((f) => `Bash(${f.program})`);
+  return [...new Set(rules)];
+}
+
+/**
+ * Whether earlier "Always allow" taps cover a request: every simple command
+ * must match an approved rule, and none may be destructive or network.
+ */
+function isApproved(
+  session: ClaudeSession,
+  toolName: string,
+  analysis?: CommandAnalysis
+): boolean {
+  if (toolName !== "Bash") return session.approvedTools.has(toolName);
+  const findings = analysis?.findings || [];
+  return (
+    findings.length > 0 &&
+    findings.every(
+      (f) =>
+        f.program &&
+        !NEVER_ALWAYS_ALLOWED.has(f.kind) &&
+        session.approvedTools.has(`Bash(${f.program})`)
+    )
+  );
+}
+
+/**
+ * Whether a request falls under policy rules. Bash rules are also checked
+ * against each simple command of the line: for ask rules one is enough,
+ * allow rules must cover every one.
+ */
+function matchesPolicy(
+  rules: string[],
+  toolName: string,
+  input: Record<string, unknown>,
+  analysis: CommandAnalysis | undefined,
+  mode: "some" | "every"
+): boolean {
+  const findings = analysis?.findings || [];
+  if (toolName !== "Bash" || findings.length === 0) {
+    return rules.some((r) => matchesToolRule(r, toolName, input));
+  }
+  const matches = (f: CommandFinding) =>
+    rules.some((r) => matchesToolRule(r, toolName, { command: f.command }));
+  return mode === "some"
+    ? rules.some((r) => matchesToolRule(r, toolName, input)) || findings.some(matches)
+    : findings.every(matches);
+}
+
+const KIND_ICONS: Record<CommandKind, string> = {
+  read: "👀",
+  write: "✏️",
+  network: "🌐",
+  destructive: "🧨",
+};
+
+/**
+ * Reason to deny without asking, or null if the user should decide.
+ */
+function autoDenyReason(
+  toolName: string,
+  input: Record<string, unknown>,
+  workingDir: string,
+  analysis?: CommandAnalysis
+): string | null {
+  if (analysis) {
+    return analysis.safe ? null : analysis.reason;
+  }
+
+  const pathKey = FILE_TOOLS[toolName];
+  if (pathKey && input[pathKey]) {
+    const path = String(input[pathKey]);
+    const absolute = isAbsolute(path) ? path : resolve(workingDir, path);
+    if (!isPathAllowed(absolute)) {
+      return `Path outside allowed directories: ${path}`;
+    }
+  }
+  return null;
+}
+
+// ============== Rendering ==============
+
+function previewLines(text: string, prefix: string): string[] {
+  const lines = text.split("\n");
+  const shown = lines.slice(0, MAX_PREVIEW_LINES).map((l) => prefix + l);
+  if (lines.length > MAX_PREVIEW_LINES) {
+    shown.push(`${prefix}… ${lines.length - MAX_PREVIEW_LINES} more lines`);
+  }
+  return shown;
+}
+
+function editPreview(edits: Array<Record<string, unknown>>): string {
+  return edits
+    .map((e) =>
+      [
+        ...previewLines(String(e.old_string || ""), "- "),
+        ...previewLines(String(e.new_string || ""), "+ "),
+      ].join("\n")
+    )
+    .join("\n…\n");
+}
+
+/**
+ * Message asking for approval: the command, or a diff / content preview.
+ */
+export function buildPermissionMessage(
+  toolName: string,
+  input: Record<string, unknown>,
+  analysis?: CommandAnalysis
+): string {
+  let title: string;
+  let preview: string;
+
+  if (toolName === "Bash") {
+    title = `🔐 Claude wants to run a command`;
+    preview = String(input.command || "");
+    if (input.description) {
+      title += `\n<i>${escapeHtml(String(input.description))}</i>`;
+    }
+    // What the command does beyond reading
+    for (const finding of analysis?.findings || []) {
+      if (finding.kind === "read") continue;
+      const note = finding.note ? ` — ${escapeHtml(finding.note)}` : "";
+      title += `\n${KIND_ICONS[finding.kind]} ${finding.kind}: <code>${escapeHtml(finding.command.slice(0, 80))}</code>${note}`;
+    }
+  } else if (toolName === "Edit" || toolName === "MultiEdit") {
+    title = `🔐 Claude wants to edit <code>${escapeHtml(String(input.file_path || ""))}</code>`;
+    const edits = Array.isArray(input.edits)
+      ? (input.edits as Array<Record<string, unknown>>)
+      : [input];
+    preview = editPreview(edits);
+  } else if (toolName === "Write") {
+    title = `🔐 Claude wants to write <code>${escapeHtml(String(input.file_path || ""))}</code>`;
+    preview = previewLines(String(input.content || ""), "+ ").join("\n");
+  } else {
+    title = `🔐 Claude wants to use <b>${escapeHtml(toolName)}</b>`;
+    preview = JSON.stringify(input, null, 2);
+  }
+
+  if (preview.length > MAX_PREVIEW_LENGTH) {
+    preview = preview.slice(0, MAX_PREVIEW_LENGTH) + "\n…";
+  }
+  return `${title}\n\n<pre>${escapeHtml(preview)}</pre>`;
+}
+
+function permissionKeyboard(
+  id: string,
+  rules: string[],
+  alwaysAsk: boolean
+): InlineKeyboard {
+  const keyboard = new InlineKeyboard()
+    .text("✅ Allow once", `perm:${id}:once`)
+    .text("⛔ Deny", `perm:${id}:deny`);
+  if (!alwaysAsk && rules.length > 0) {
+    keyboard
+      .row()
+      .text(`♾ Always allow ${rules.join(", ")}`.slice(0, 60), `perm:${id}:always`);
+  }
+  return keyboard;
+}
+
+// ============== Lifecycle ==============
+
+/**
+ * Decide a permission_prompt request from the CLI for a running query.
+ * Replies with the CLI's behavior: allow or deny (with a message for Claude).
+ */
+export async function handlePermissionRequest(
+  ctx: Context,
+  session: ClaudeSession,
+  request: IpcRequest
+): Promise<IpcReply> {
+  const toolName = String(request.tool_name || "");
+  const input = (request.input || {}) as Record<string, unknown>;
+  const userId = ctx.from?.id || 0;
+  const username = ctx.from?.username || "unknown";
+
+  const analysis =
+    toolName === "Bash"
+      ? analyzeCommand(String(input.command || ""), session.currentWorkingDir)
+      : undefined;
+  const rules = permissionRules(toolName, analysis);
+
+  // 1. Obvious violations are denied without asking
+  const denyReason = autoDenyReason(
+    toolName,
+    input,
+    session.currentWorkingDir,
+    analysis
+  );
+  if (denyReason) {
+    await auditLogTool(userId, username, toolName, input, true, denyReason, analysis);
+    try {
+      await ctx.reply(
+        `🚫 Blocked <b>${escapeHtml(toolName)}</b>: ${escapeHtml(denyReason)}`,
+        { parse_mode: "HTML", disable_notification: true }
+      );
+    } catch (error) {
+      console.debug("Failed to post blocked tool notice:", error);
+    }
+    return { ok: true, behavior: "deny", message: `Blocked by the bot: ${denyReason}` };
+  }
+
+  // 2. Allowed by the tool policy (rules kept off --allowedTools because they
+  //    cover an ask rule) or approved earlier with "Always allow", unless the
+  //    policy says to ask
+  const policy = getToolPolicy(session.currentWorkingDir);
+  const alwaysAsk = matchesPolicy(policy.ask, toolName, input, analysis, "some");
+  if (
+    !alwaysAsk &&
+    (matchesPolicy(policy.allow, toolName, input, analysis, "every") ||
+      isApproved(session, toolName, analysis))
+  ) {
+    await auditLogTool(userId, username, toolName, input, false, "", analysis);
+    return { ok: true, behavior: "allow" };
+  }
+
+  // 3. Ask in the chat and wait for a tap (or the timeout)
+  const id = randomUUID().slice(0, 8);
+  const msg = await ctx.reply(buildPermissionMessage(toolName, input, analysis), {
+    parse_mode: "HTML",
+    reply_markup: permissionKeyboard(id, rules, alwaysAsk),
+  });
+
+  // Time spent waiting for the user doesn't count towards the query timeouts
+  const decision = await session.pauseTimeoutsWhile(
+    new Promise<PermissionDecision | null>((resolveDecision) => {
+      const timer =
+        ASK_USER_TIMEOUT_MS > 0
+          ? setTimeout(() => finish(null), ASK_USER_TIMEOUT_MS)
+          : null;
+      function finish(result: PermissionDecision | null) {
+        if (timer) clearTimeout(timer);
+        pendingPermissions.delete(id);
+        resolveDecision(result);
+      }
+      pendingPermissions.set(id, {
+        sessionId: session.id,
+        toolName,
+        rules,
+        resolve: finish,
+      });
+    })
+  );
+
+  if (decision === "always") {
+    for (const rule of rules) session.approvedTools.add(rule);
+  }
+  const allowed = decision === "once" || decision === "always";
+  await auditLogTool(
+    userId,
+    username,
+    toolName,
+    input,
+    !allowed,
+    allowed ? "" : decision ? "Denied by user" : "No answer",
+    analysis
+  );
+
+  const outcome =
+    decision === "always"
+      ? `♾ Always allowed ${rules.join(", ")}`
+      : decision === "once"
+        ? "✅ Allowed"
+        : decision === "deny"
+          ? "⛔ Denied"
+          : "⌛ No answer — denied";
+  try {
+    await ctx.api.editMessageText(
+      msg.chat.id,
+      msg.message_id,
+      `${buildPermissionMessage(toolName, input, analysis)}\n\n${escapeHtml(outcome)}`,
+      { parse_mode: "HTML" }
+    );
+  } catch (error) {
+    console.debug("Failed to update permission message:", error);
+  }
+
+  return allowed
+    ? { ok: true, behavior: "allow" }
+    : {
+        ok: true,
+        behavior: "deny",
+        message: decision
+          ? "The user denied this action."
+          : "The user did not answer the permission request.",
+      };
+}
+
+/**
+ * Resolve a pending request from its button (perm:{id}:{once|always|deny}).
+ * Returns false if the request is unknown or already decided.
+ */
+export function decidePermission(id: string, decision: PermissionDecision): boolean {
+  const request = pendingPermissions.get(id);
+  if (!request) return false;
+  request.resolve(decision);
+  return true;
+}
+
+/**
+ * Deny a session's pending requests (its query ended).
+ */
+export function cancelPermissionRequests(sessionId: number): void {
+  for (const request of [...pendingPermissions.values()]) {
+    if (request.sessionId === sessionId) request.resolve(null);
+  }
+}
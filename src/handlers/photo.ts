@@ -6,7 +6,7 @@
 
 import type { Context } from "grammy";
 import { writeFileSync } from "fs";
-import { session } from "../session";
+import { getSession } from "../session";
 import { ALLOWED_USERS, TEMP_DIR } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import { auditLog, auditLogRateLimit, startTypingIndicator } from "../utils";
@@ -14,6 +14,7 @@ import { StreamingState, createStatusCallback } from "./streaming";
 import { createMediaGroupBuffer, handleProcessingError } from "./media-group";
 import { autoDocument, formatDocReply } from "../autodoc";
 import { escapeHtml } from "../formatting";
+import { drainQueue, queueIfBusy } from "./text";
 
 // Create photo-specific media group buffer
 const photoBuffer = createMediaGroupBuffer({
@@ -59,8 +60,7 @@ async function processPhotos(
   username: string,
   chatId: number
 ): Promise<void> {
-  // Mark processing started
-  const stopProcessing = session.startProcessing();
+  const session = getSession(ctx);
 
   // Build prompt
   let prompt: string;
@@ -75,6 +75,16 @@ async function processPhotos(
       : `Please analyze these ${photoPaths.length} images:\n${pathsList}`;
   }
 
+  // Queue if another query is running
+  const preview =
+    caption || (photoPaths.length === 1 ? "photo" : `${photoPaths.length} photos`);
+  if (await queueIfBusy(session, { ctx, text: prompt, kind: "photo", preview })) {
+    return;
+  }
+
+  // Mark processing started
+  const stopProcessing = session.startProcessing();
+
   // Set conversation title (if new session)
   if (!session.isActive) {
     const rawTitle = caption || "[Foto]";
@@ -88,7 +98,7 @@ async function processPhotos(
 
   // Create streaming state
   const state = new StreamingState();
-  const statusCallback = createStatusCallback(ctx, state);
+  const statusCallback = createStatusCallback(ctx, state, session);
 
   // Send "Processing..." message before Claude call
   const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -132,6 +142,8 @@ async function processPhotos(
     stopProcessing();
     typing.stop();
   }
+
+  await drainQueue(session);
 }
 
 /**
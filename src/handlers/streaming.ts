@@ -5,150 +5,387 @@
  */
 
 import type { Context } from "grammy";
-import type { Message } from "grammy/types";
-import { InlineKeyboard } from "grammy";
-import { readdirSync, readFileSync, writeFileSync } from "fs";
-import { tmpdir } from "os";
-import { resolve } from "path";
+import { InputFile } from "grammy";
+import { randomUUID } from "crypto";
+import type { InlineKeyboardMarkup, Message } from "grammy/types";
 import type { StatusCallback } from "../types";
-import { convertMarkdownToHtml, escapeHtml } from "../formatting";
+import type { ClaudeSession } from "../session";
 import {
-  TELEGRAM_MESSAGE_LIMIT,
-  TELEGRAM_SAFE_LIMIT,
+  convertMarkdownToHtml,
+  escapeHtml,
+  previewMarkdown,
+  splitHtmlMessage,
+  splitMarkdown,
+} from "../formatting";
+import type { Attachment, RenderOptions } from "../markdown";
+import {
+  CODE_BLOCK_MAX_LINES,
+  LONG_ANSWER_HTML,
+  LONG_ANSWER_THRESHOLD,
+  LONG_CODE_BLOCKS,
   STREAMING_THROTTLE_MS,
-  BUTTON_LABEL_MAX_LENGTH,
+  TABLE_MAX_ROWS,
+  TABLE_MAX_WIDTH,
+  TELEGRAM_SAFE_LIMIT,
 } from "../config";
 
+// Live updates show long tables and code in full; finished parts of an
+// answer get them collapsed or attached (see renderFinished)
+const RENDER_OPTIONS: RenderOptions = {
+  tableMaxWidth: TABLE_MAX_WIDTH,
+  tableMaxRows: TABLE_MAX_ROWS,
+  codeMaxLines: CODE_BLOCK_MAX_LINES,
+  longCode: LONG_CODE_BLOCKS,
+};
+
 /**
- * Create inline keyboard for ask_user options.
+ * Live view of one text segment. A segment that outgrows one message rolls
+ * over: the part that fits stays in the earlier message, and only the tail
+ * message is edited from then on.
  */
-export function createAskUserKeyboard(
-  requestId: string,
-  options: string[]
-): InlineKeyboard {
-  const keyboard = new InlineKeyboard();
-  for (let idx = 0; idx < options.length; idx++) {
-    const option = options[idx]!;
-    // Truncate long options for button display
-    const display =
-      option.length > BUTTON_LABEL_MAX_LENGTH
-        ? option.slice(0, BUTTON_LABEL_MAX_LENGTH) + "..."
-        : option;
-    const callbackData = `askuser:${requestId}:${idx}`;
-    keyboard.text(display, callbackData).row();
-  }
-  return keyboard;
+interface SegmentView {
+  messages: Message[]; // All messages of the segment, oldest first
+  tail: Message | null; // The message still being edited (null = start a new one)
+  tailHtml: string; // What the tail message shows
+  frozen: number; // Length of the segment's markdown shown in earlier messages
+  carry: string; // Markdown the tail starts with (a code fence reopened after a cut)
+  attachments: Attachment[]; // Files for long tables / code blocks, in order
+  attached: number; // How many of them have been sent
+  lastEdit: number;
+}
+
+/**
+ * Tracks state for streaming message updates.
+ */
+export class StreamingState {
+  segments = new Map<number, SegmentView>(); // segment_id -> its messages
+  toolMessages: Message[] = []; // ephemeral tool status messages
+  statusMsg: Message | null = null; // single reusable status message (thinking/tools)
+  longAnswerId: string | null = null; // last segment sent as a document (for "Expand inline")
 }
 
 /**
- * Check for pending ask-user requests and send inline keyboards.
+ * Send HTML, falling back to plain text if Telegram rejects the markup.
  */
-export async function checkPendingAskUserRequests(
+async function sendHtml(
   ctx: Context,
-  chatId: number
-): Promise<boolean> {
-  const tmp = tmpdir();
-  let buttonsSent = false;
-  const files = readdirSync(tmp).filter(
-    (f) => f.startsWith("ask-user-") && f.endsWith(".json")
-  );
+  html: string,
+  silent = false,
+  replyMarkup?: InlineKeyboardMarkup
+): Promise<Message> {
+  try {
+    return await ctx.reply(html, {
+      parse_mode: "HTML",
+      disable_notification: silent,
+      reply_markup: replyMarkup,
+    });
+  } catch (error) {
+    console.debug("HTML reply failed, using plain text:", error);
+    return ctx.reply(html, { disable_notification: silent, reply_markup: replyMarkup });
+  }
+}
 
-  for (const filename of files) {
-    const filepath = resolve(tmp, filename);
+async function editHtml(ctx: Context, msg: Message, html: string): Promise<void> {
+  try {
+    await ctx.api.editMessageText(msg.chat.id, msg.message_id, html, {
+      parse_mode: "HTML",
+    });
+  } catch (error) {
+    if (String(error).includes("message is not modified")) return;
+    console.debug("HTML edit failed, trying plain text:", error);
     try {
-      const text = readFileSync(filepath, "utf-8");
-      const data = JSON.parse(text);
-
-      // Only process pending requests for this chat
-      if (data.status !== "pending") continue;
-      if (String(data.chat_id) !== String(chatId)) continue;
-
-      const question = data.question || "Please choose:";
-      const options = data.options || [];
-      const requestId = data.request_id || "";
-
-      if (options.length > 0 && requestId) {
-        const keyboard = createAskUserKeyboard(requestId, options);
-        await ctx.reply(`❓ ${question}`, { reply_markup: keyboard });
-        buttonsSent = true;
+      await ctx.api.editMessageText(msg.chat.id, msg.message_id, html);
+    } catch (editError) {
+      console.debug("Edit message failed:", editError);
+    }
+  }
+}
 
-        // Mark as sent
-        data.status = "sent";
-        writeFileSync(filepath, JSON.stringify(data));
-      }
+/**
+ * Split long HTML at safe boundaries and send it as separate messages.
+ */
+async function sendChunkedMessages(ctx: Context, html: string): Promise<void> {
+  for (const chunk of splitHtmlMessage(html, TELEGRAM_SAFE_LIMIT)) {
+    try {
+      await sendHtml(ctx, chunk);
     } catch (error) {
-      console.warn(`Failed to process ask-user file ${filepath}:`, error);
+      console.debug("Failed to send chunk:", error);
     }
   }
+}
 
-  return buttonsSent;
+async function deleteMessages(ctx: Context, messages: Message[]): Promise<void> {
+  for (const msg of messages) {
+    try {
+      await ctx.api.deleteMessage(msg.chat.id, msg.message_id);
+    } catch (error) {
+      console.debug("Failed to delete live message:", error);
+    }
+  }
 }
 
 /**
- * Tracks state for streaming message updates.
+ * Render markdown that won't change anymore, collecting the files for its
+ * long tables and code blocks in `attachments`.
  */
-export class StreamingState {
-  textMessages = new Map<number, Message>(); // segment_id -> telegram message
-  toolMessages: Message[] = []; // ephemeral tool status messages
-  statusMsg: Message | null = null; // single reusable status message (thinking/tools)
-  lastEditTimes = new Map<number, number>(); // segment_id -> last edit time
-  lastContent = new Map<number, string>(); // segment_id -> last sent content
+function renderFinished(markdown: string, attachments: Attachment[]): string {
+  return convertMarkdownToHtml(markdown, { ...RENDER_OPTIONS, attachments });
 }
 
 /**
- * Format content for Telegram, ensuring it fits within the message limit.
- * Truncates raw content and re-converts if HTML output exceeds the limit.
+ * Send attachments as documents.
  */
-function formatWithinLimit(
-  content: string,
-  safeLimit: number = TELEGRAM_SAFE_LIMIT
-): string {
-  let display =
-    content.length > safeLimit ? content.slice(0, safeLimit) + "..." : content;
-  let formatted = convertMarkdownToHtml(display);
-
-  // HTML tags can inflate content beyond the limit - shrink until it fits
-  if (formatted.length > TELEGRAM_MESSAGE_LIMIT) {
-    const ratio = TELEGRAM_MESSAGE_LIMIT / formatted.length;
-    display = content.slice(0, Math.floor(safeLimit * ratio * 0.95)) + "...";
-    formatted = convertMarkdownToHtml(display);
+async function sendAttachments(
+  ctx: Context,
+  attachments: Attachment[],
+  silent = false
+): Promise<void> {
+  for (const file of attachments) {
+    try {
+      await ctx.replyWithDocument(
+        new InputFile(Buffer.from(file.content, "utf-8"), file.filename),
+        { caption: file.caption, disable_notification: silent }
+      );
+    } catch (error) {
+      console.debug(`Failed to send ${file.filename}:`, error);
+    }
   }
+}
 
-  return formatted;
+/**
+ * Show `html` in the segment's tail message, sending it if there is none yet.
+ */
+async function showTail(
+  ctx: Context,
+  view: SegmentView,
+  html: string,
+  silent: boolean
+): Promise<void> {
+  if (!html.trim()) return;
+  if (!view.tail) {
+    view.tail = await sendHtml(ctx, html, silent);
+    view.messages.push(view.tail);
+  } else if (html !== view.tailHtml) {
+    await editHtml(ctx, view.tail, html);
+  }
+  view.tailHtml = html;
 }
 
 /**
- * Split long formatted content into chunks and send as separate messages.
+ * Render a segment's markdown so far. Whenever the tail would exceed the
+ * message limit, the part that fits (cut at a paragraph or code fence where
+ * possible) is finalized in the tail message and a new tail message starts
+ * with the rest. Intermediate updates are throttled; `final` ones are not.
+ * Finished messages get their long tables and code blocks attached.
  */
-async function sendChunkedMessages(
+async function renderSegment(
   ctx: Context,
-  content: string
+  state: StreamingState,
+  segmentId: number,
+  content: string,
+  final: boolean
 ): Promise<void> {
-  // Split on markdown content first, then format each chunk
-  for (let i = 0; i < content.length; i += TELEGRAM_SAFE_LIMIT) {
-    const chunk = content.slice(i, i + TELEGRAM_SAFE_LIMIT);
-    try {
-      await ctx.reply(chunk, { parse_mode: "HTML" });
-    } catch {
-      // HTML failed (possibly broken tags from split) - try plain text
-      try {
-        await ctx.reply(chunk);
-      } catch (plainError) {
-        console.debug("Failed to send chunk:", plainError);
+  let view = state.segments.get(segmentId);
+  const now = Date.now();
+  if (view && !final && now - view.lastEdit <= STREAMING_THROTTLE_MS) return;
+  if (!view) {
+    view = {
+      messages: [],
+      tail: null,
+      tailHtml: "",
+      frozen: 0,
+      carry: "",
+      attachments: [],
+      attached: 0,
+      lastEdit: 0,
+    };
+    state.segments.set(segmentId, view);
+  }
+  view.lastEdit = now;
+
+  // A long answer goes out as a document when it's done; until then its
+  // messages stop growing and the tail shows progress
+  if (LONG_ANSWER_THRESHOLD > 0 && content.length > LONG_ANSWER_THRESHOLD) {
+    if (final) {
+      await deleteMessages(ctx, view.messages);
+      state.segments.delete(segmentId);
+      state.longAnswerId = await sendLongAnswer(ctx, content);
+    } else {
+      const kb = Math.round(Buffer.byteLength(content) / 1024);
+      await showTail(
+        ctx,
+        view,
+        `📝 <i>Writing a long answer (${kb} KB so far), it will be sent as a document…</i>`,
+        true
+      );
+    }
+    return;
+  }
+
+  // Live messages are silent; the final one notifies if it's new
+  const silent = !final;
+  for (;;) {
+    const tail = view.carry + content.slice(view.frozen);
+    // Measured as finished messages render, with long code and tables attached
+    const split = splitMarkdown(tail, TELEGRAM_SAFE_LIMIT, {
+      ...RENDER_OPTIONS,
+      attachments: view.attachments,
+    });
+
+    if (!split || split.consumed <= view.carry.length) {
+      if (!final) {
+        // Live HTML shows long code in full and may run over: show what fits
+        const html = convertMarkdownToHtml(tail, RENDER_OPTIONS);
+        await showTail(ctx, view, splitHtmlMessage(html, TELEGRAM_SAFE_LIMIT)[0] || "", silent);
+        return;
+      }
+      const html = renderFinished(tail, view.attachments);
+      const [first = "", ...more] = splitHtmlMessage(html, TELEGRAM_SAFE_LIMIT);
+      await showTail(ctx, view, first, silent);
+      for (const chunk of more) {
+        view.messages.push(await sendHtml(ctx, chunk, silent));
       }
+      await sendAttachments(ctx, view.attachments.slice(view.attached), silent);
+      view.attached = view.attachments.length;
+      return;
     }
+
+    await showTail(ctx, view, renderFinished(split.head, view.attachments), silent);
+    await sendAttachments(ctx, view.attachments.slice(view.attached), silent);
+    view.attached = view.attachments.length;
+    view.frozen += split.consumed - view.carry.length;
+    view.carry = split.reopen;
+    view.tail = null;
+    view.tailHtml = "";
+  }
+}
+
+// ============== Long Answers ==============
+
+const PREVIEW_LENGTH = 1000;
+const MAX_LONG_ANSWERS = 20;
+
+// Recent long answers by id, for "Expand inline" (oldest dropped first)
+const longAnswers = new Map<string, string>();
+
+/**
+ * Standalone HTML page for LONG_ANSWER_HTML. Telegram's tags are plain HTML
+ * (newlines are kept with pre-wrap).
+ */
+function htmlDocument(markdown: string): string {
+  const title = markdown.match(/^#{1,6}\s+(.+)$/m)?.[1] || "Claude's answer";
+  return [
+    "<!DOCTYPE html>",
+    '<html><head><meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>body{font-family:system-ui,sans-serif;max-width:50em;margin:2em auto;padding:0 1em;white-space:pre-wrap}" +
+      "pre{background:#f4f4f4;padding:.5em;overflow-x:auto}blockquote{border-left:3px solid #ccc;margin:0;padding-left:1em}</style>",
+    `</head><body>${convertMarkdownToHtml(markdown)}</body></html>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Send a long answer as a preview of its first paragraph plus a .md document
+ * (and an .html copy with LONG_ANSWER_HTML) instead of a run of messages.
+ * Returns the id for "Expand inline" (expand:{id}); with `button`, the
+ * preview carries that button itself.
+ */
+async function sendLongAnswer(
+  ctx: Context,
+  markdown: string,
+  header = "",
+  button = false
+): Promise<string> {
+  const id = randomUUID().slice(0, 8);
+  longAnswers.set(id, markdown);
+  for (const old of [...longAnswers.keys()].slice(0, -MAX_LONG_ANSWERS)) {
+    longAnswers.delete(old);
   }
+
+  const kb = Math.round(Buffer.byteLength(markdown) / 1024);
+  const preview = `${header}${previewMarkdown(markdown, PREVIEW_LENGTH)}\n\n📄 <i>Long answer (${kb} KB), the full text is attached.</i>`;
+  await sendHtml(
+    ctx,
+    preview,
+    false,
+    button
+      ? { inline_keyboard: [[{ text: "📖 Expand inline", callback_data: `expand:${id}` }]] }
+      : undefined
+  );
+
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-");
+  const files: Attachment[] = [
+    { filename: `answer-${stamp}.md`, content: markdown, caption: `Full answer, ${kb} KB` },
+  ];
+  if (LONG_ANSWER_HTML) {
+    files.push({
+      filename: `answer-${stamp}.html`,
+      content: htmlDocument(markdown),
+      caption: "Rendered copy",
+    });
+  }
+  await sendAttachments(ctx, files, true);
+  return id;
+}
+
+/**
+ * Post a long answer in full, in as many messages as it takes. False if it's
+ * no longer kept (evicted, or the bot restarted since).
+ */
+export async function expandLongAnswer(ctx: Context, id: string): Promise<boolean> {
+  const markdown = longAnswers.get(id);
+  if (markdown === undefined) return false;
+
+  const attachments: Attachment[] = [];
+  await sendChunkedMessages(ctx, renderFinished(markdown, attachments));
+  await sendAttachments(ctx, attachments);
+  return true;
 }
 
 /**
  * Create a status callback for streaming updates.
+ *
+ * When the session is not the chat's active one, live updates are skipped and
+ * each finished segment is posted with the session name as a header.
  */
 export function createStatusCallback(
   ctx: Context,
-  state: StreamingState
+  state: StreamingState,
+  session?: Pick<ClaudeSession, "name" | "isForeground">
 ): StatusCallback {
   return async (statusType: string, content: string, segmentId?: number) => {
     try {
+      const isBackground = session ? !session.isForeground : false;
+
+      if (
+        isBackground &&
+        segmentId !== undefined &&
+        statusType === "segment_end"
+      ) {
+        if (!content) return;
+
+        // Drop the live messages (if streaming started in the foreground)
+        await deleteMessages(ctx, state.segments.get(segmentId)?.messages || []);
+        state.segments.delete(segmentId);
+
+        const header = `📌 <b>${escapeHtml(session!.name)}</b>\n\n`;
+        if (LONG_ANSWER_THRESHOLD > 0 && content.length > LONG_ANSWER_THRESHOLD) {
+          // No action bar for background sessions: the button goes on the preview
+          await sendLongAnswer(ctx, content, header, true);
+          return;
+        }
+        const attachments: Attachment[] = [];
+        await sendChunkedMessages(ctx, header + renderFinished(content, attachments));
+        await sendAttachments(ctx, attachments);
+        return;
+      }
+
+      if (isBackground && statusType !== "done") {
+        // Background sessions don't stream into the active conversation
+        return;
+      }
+
       if (statusType === "thinking") {
         // Show thinking in the single status message (compact)
         const preview =
@@ -205,131 +442,10 @@ export function createStatusCallback(
           state.toolMessages.push(state.statusMsg);
         }
       } else if (statusType === "text" && segmentId !== undefined) {
-        const now = Date.now();
-        const lastEdit = state.lastEditTimes.get(segmentId) || 0;
-
-        if (!state.textMessages.has(segmentId)) {
-          // New segment - create message (silent — final segment_end will notify)
-          const formatted = formatWithinLimit(content);
-          try {
-            const msg = await ctx.reply(formatted, {
-              parse_mode: "HTML",
-              disable_notification: true,
-            });
-            state.textMessages.set(segmentId, msg);
-            state.lastContent.set(segmentId, formatted);
-          } catch (htmlError) {
-            // HTML parse failed, fall back to plain text
-            console.debug("HTML reply failed, using plain text:", htmlError);
-            const msg = await ctx.reply(formatted, {
-              disable_notification: true,
-            });
-            state.textMessages.set(segmentId, msg);
-            state.lastContent.set(segmentId, formatted);
-          }
-          state.lastEditTimes.set(segmentId, now);
-        } else if (now - lastEdit > STREAMING_THROTTLE_MS) {
-          // Update existing segment message (throttled)
-          const msg = state.textMessages.get(segmentId)!;
-          const formatted = formatWithinLimit(content);
-          // Skip if content unchanged
-          if (formatted === state.lastContent.get(segmentId)) {
-            return;
-          }
-          try {
-            await ctx.api.editMessageText(
-              msg.chat.id,
-              msg.message_id,
-              formatted,
-              {
-                parse_mode: "HTML",
-              }
-            );
-            state.lastContent.set(segmentId, formatted);
-          } catch (error) {
-            const errorStr = String(error);
-            if (errorStr.includes("MESSAGE_TOO_LONG")) {
-              // Skip this intermediate update - segment_end will chunk properly
-              console.debug(
-                "Streaming edit too long, deferring to segment_end"
-              );
-            } else {
-              console.debug("HTML edit failed, trying plain text:", error);
-              try {
-                await ctx.api.editMessageText(
-                  msg.chat.id,
-                  msg.message_id,
-                  formatted
-                );
-                state.lastContent.set(segmentId, formatted);
-              } catch (editError) {
-                console.debug("Edit message failed:", editError);
-              }
-            }
-          }
-          state.lastEditTimes.set(segmentId, now);
-        }
+        await renderSegment(ctx, state, segmentId, content, false);
       } else if (statusType === "segment_end" && segmentId !== undefined) {
         if (content) {
-          const formatted = convertMarkdownToHtml(content);
-
-          if (!state.textMessages.has(segmentId)) {
-            // No message was created during streaming (short response) - send new
-            if (formatted.length <= TELEGRAM_MESSAGE_LIMIT) {
-              try {
-                await ctx.reply(formatted, { parse_mode: "HTML" });
-              } catch {
-                try {
-                  await ctx.reply(formatted);
-                } catch (plainError) {
-                  console.debug("Failed to send final message:", plainError);
-                }
-              }
-            } else {
-              await sendChunkedMessages(ctx, formatted);
-            }
-          } else {
-            const msg = state.textMessages.get(segmentId)!;
-
-            // Skip if content unchanged
-            if (formatted === state.lastContent.get(segmentId)) {
-              return;
-            }
-
-            if (formatted.length <= TELEGRAM_MESSAGE_LIMIT) {
-              try {
-                await ctx.api.editMessageText(
-                  msg.chat.id,
-                  msg.message_id,
-                  formatted,
-                  {
-                    parse_mode: "HTML",
-                  }
-                );
-              } catch (error) {
-                const errorStr = String(error);
-                if (errorStr.includes("MESSAGE_TOO_LONG")) {
-                  // HTML overhead pushed it over - delete and chunk
-                  try {
-                    await ctx.api.deleteMessage(msg.chat.id, msg.message_id);
-                  } catch (delError) {
-                    console.debug("Failed to delete for chunking:", delError);
-                  }
-                  await sendChunkedMessages(ctx, formatted);
-                } else {
-                  console.debug("Failed to edit final message:", error);
-                }
-              }
-            } else {
-              // Too long - delete and split
-              try {
-                await ctx.api.deleteMessage(msg.chat.id, msg.message_id);
-              } catch (error) {
-                console.debug("Failed to delete message for splitting:", error);
-              }
-              await sendChunkedMessages(ctx, formatted);
-            }
-          }
+          await renderSegment(ctx, state, segmentId, content, true);
         }
       } else if (statusType === "done") {
         // Delete tool messages - text messages stay
@@ -3,7 +3,11 @@
  */
 
 import type { Context } from "grammy";
-import { session } from "../session";
+import {
+  getSession,
+  type ClaudeSession,
+  type QueuedMessage,
+} from "../session";
 import { ALLOWED_USERS } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import {
@@ -11,15 +15,22 @@ import {
   auditLogRateLimit,
   checkInterrupt,
   startTypingIndicator,
+  queryTimeoutReply,
 } from "../utils";
 import { StreamingState, createStatusCallback } from "./streaming";
+import { answerAskUserWithText } from "./ask-user";
 import { autoDocument, formatDocReply } from "../autodoc";
+import { registerActivityLog } from "../activity";
 import {
   escapeHtml,
   extractGsdCommands,
   buildActionKeyboard,
 } from "../formatting";
-import { getLastActionBar, setLastActionBar } from "./commands";
+import {
+  registerForkPoint,
+  retireLastActionBar,
+  setLastActionBar,
+} from "./commands";
 
 /**
  * Handle incoming text messages.
@@ -29,6 +40,7 @@ export async function handleText(ctx: Context): Promise<void> {
   const username = ctx.from?.username || "unknown";
   const chatId = ctx.chat?.id;
   let message = ctx.message?.text;
+  const session = getSession(ctx);
 
   if (!userId || !message || !chatId) {
     return;
@@ -40,13 +52,18 @@ export async function handleText(ctx: Context): Promise<void> {
     return;
   }
 
-  // 2. Check for interrupt prefix
-  message = await checkInterrupt(message);
+  // 2. Typed answer to an ask_user "Other…" button
+  if (await answerAskUserWithText(ctx, session.key, message)) {
+    return;
+  }
+
+  // 3. Check for interrupt prefix
+  message = await checkInterrupt(ctx, message);
   if (!message.trim()) {
     return;
   }
 
-  // 3. Rate limit check
+  // 4. Rate limit check
   const [allowed, retryAfter] = rateLimiter.check(userId);
   if (!allowed) {
     await auditLogRateLimit(userId, username, retryAfter!);
@@ -56,14 +73,28 @@ export async function handleText(ctx: Context): Promise<void> {
     return;
   }
 
+  await processTextMessage(ctx, session, message);
+}
+
+/**
+ * Send a text prompt to a specific session and stream the response.
+ * Queues the prompt if the session is busy, and drains its queue afterwards.
+ */
+export async function processTextMessage(
+  ctx: Context,
+  session: ClaudeSession,
+  message: string
+): Promise<void> {
+  const userId = ctx.from?.id;
+  const username = ctx.from?.username || "unknown";
+  const chatId = ctx.chat?.id;
+
+  if (!userId || !chatId) {
+    return;
+  }
+
   // 3b. Queue if another query is running
-  if (session.isRunning) {
-    const queued = session.queueMessage({ ctx });
-    if (queued) {
-      await ctx.reply("Queued — will process after current request.", { disable_notification: true });
-    } else {
-      await ctx.reply("Queue full. Please wait for the current request to finish.");
-    }
+  if (await queueIfBusy(session, { ctx, text: message })) {
     return;
   }
 
@@ -89,7 +120,7 @@ export async function handleText(ctx: Context): Promise<void> {
 
   // 8. Create streaming state and callback
   let state = new StreamingState();
-  let statusCallback = createStatusCallback(ctx, state);
+  let statusCallback = createStatusCallback(ctx, state, session);
 
   // 9. Send to Claude with retry logic for crashes
   const MAX_RETRIES = 1;
@@ -130,8 +161,8 @@ export async function handleText(ctx: Context): Promise<void> {
         }
       }
 
-      // 10d. Show context bar + action buttons
-      {
+      // 10d. Show context bar + action buttons (only for the active session)
+      if (session.isForeground) {
         const pct = session.contextPercent;
         const barText = pct !== null
           ? (() => {
@@ -144,24 +175,24 @@ export async function handleText(ctx: Context): Promise<void> {
         // Extract GSD suggestions from response
         const { commands: gsdCmds, hasClearSuggestion } =
           extractGsdCommands(response);
+        const forkPointId = registerForkPoint(session);
         const keyboard = buildActionKeyboard({
           gsdCommands: gsdCmds,
           hasClearSuggestion,
+          forkPointId,
+          checkpointId: session.lastCheckpoint?.id,
+          longAnswerId: state.longAnswerId ?? undefined,
+          activityId: registerActivityLog(session.activityLog),
         });
 
-        // Delete old action bar
-        const oldBar = getLastActionBar();
-        if (oldBar) {
-          try {
-            await ctx.api.deleteMessage(oldBar.chatId, oldBar.messageId);
-          } catch {}
-        }
+        // Replace the old action bar (its Fork button stays)
+        await retireLastActionBar(ctx, session.key);
 
         const barMsg = await ctx.reply(barText || "—", {
           reply_markup: keyboard,
           disable_notification: true,
         });
-        setLastActionBar(chatId, barMsg.message_id);
+        setLastActionBar(session.key, chatId, barMsg.message_id, forkPointId);
       }
 
       break; // Success - exit retry loop
@@ -187,7 +218,7 @@ export async function handleText(ctx: Context): Promise<void> {
         await ctx.reply(`⚠️ Claude crashed, retrying...`);
         // Reset state for retry
         state = new StreamingState();
-        statusCallback = createStatusCallback(ctx, state);
+        statusCallback = createStatusCallback(ctx, state, session);
         continue;
       }
 
@@ -199,8 +230,11 @@ export async function handleText(ctx: Context): Promise<void> {
         await ctx.api.deleteMessage(chatId, processingMsg.message_id);
       } catch { /* already deleted */ }
 
-      // Check if it was a cancellation
-      if (errorStr.includes("abort") || errorStr.includes("cancel")) {
+      // Check if it was a timeout or a cancellation
+      const timeoutReply = queryTimeoutReply(error);
+      if (timeoutReply) {
+        await ctx.reply(timeoutReply);
+      } else if (errorStr.includes("abort") || errorStr.includes("cancel")) {
         // Only show "Query stopped" if it was an explicit stop, not an interrupt from a new message
         const wasInterrupt = session.consumeInterruptFlag();
         if (!wasInterrupt) {
@@ -218,8 +252,41 @@ export async function handleText(ctx: Context): Promise<void> {
   typing.stop();
 
   // 12. Process next queued message (FIFO)
+  await drainQueue(session);
+}
+
+/**
+ * Queue a prompt if the session is busy, telling the user either way.
+ * Returns false if the session is idle and the caller should run it now.
+ */
+export async function queueIfBusy(
+  session: ClaudeSession,
+  item: QueuedMessage
+): Promise<boolean> {
+  if (!session.isRunning) {
+    return false;
+  }
+
+  if (session.queueMessage(item)) {
+    await item.ctx.reply(
+      `Queued (${session.queueLength} waiting) — will process after current request. /queue to manage.`,
+      { disable_notification: true }
+    );
+  } else {
+    await item.ctx.reply(
+      "Queue full. Please wait for the current request to finish, or /queue to make room."
+    );
+  }
+  return true;
+}
+
+/**
+ * Run the next queued prompt, if any. Called when a query finishes.
+ * Media prompts are already prepared, so everything replays as text.
+ */
+export async function drainQueue(session: ClaudeSession): Promise<void> {
   const next = session.dequeueMessage();
   if (next) {
-    await handleText(next.ctx);
+    await processTextMessage(next.ctx, session, next.text);
   }
 }
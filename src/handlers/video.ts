@@ -6,7 +6,7 @@
 
 import type { Context } from "grammy";
 import { writeFileSync } from "fs";
-import { session } from "../session";
+import { getSession } from "../session";
 import { ALLOWED_USERS, TEMP_DIR } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import { auditLog, auditLogRateLimit, startTypingIndicator } from "../utils";
@@ -14,6 +14,7 @@ import { StreamingState, createStatusCallback } from "./streaming";
 import { handleProcessingError } from "./media-group";
 import { autoDocument, formatDocReply } from "../autodoc";
 import { escapeHtml } from "../formatting";
+import { drainQueue, queueIfBusy } from "./text";
 
 // Max video size (50MB - reasonable for short clips/voice memos)
 const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
@@ -53,6 +54,7 @@ export async function handleVideo(ctx: Context): Promise<void> {
   const chatId = ctx.chat?.id;
   const video = ctx.message?.video || ctx.message?.video_note;
   const caption = ctx.message?.caption;
+  const session = getSession(ctx);
 
   if (!userId || !chatId || !video) {
     return;
@@ -100,7 +102,24 @@ export async function handleVideo(ctx: Context): Promise<void> {
     return;
   }
 
-  // 5. Process video
+  // 5. Build prompt with video path
+  const prompt = caption
+    ? `Here's a video file at path: ${videoPath}\n\nUser says: ${caption}`
+    : `I've received a video file at path: ${videoPath}\n\nPlease transcribe it for me.`;
+
+  // 6. Queue if another query is running
+  if (
+    await queueIfBusy(session, { ctx, text: prompt, kind: "video", preview: caption || "video" })
+  ) {
+    try {
+      await ctx.api.deleteMessage(statusMsg.chat.id, statusMsg.message_id);
+    } catch {
+      // Ignore deletion errors
+    }
+    return;
+  }
+
+  // 7. Process video
   const stopProcessing = session.startProcessing();
   const typing = startTypingIndicator(ctx);
 
@@ -112,11 +131,6 @@ export async function handleVideo(ctx: Context): Promise<void> {
       "📹 Processing video..."
     );
 
-    // Build prompt with video path
-    const prompt = caption
-      ? `Here's a video file at path: ${videoPath}\n\nUser says: ${caption}`
-      : `I've received a video file at path: ${videoPath}\n\nPlease transcribe it for me.`;
-
     // Set conversation title (if new session)
     if (!session.isActive) {
       const rawTitle = caption || "[Video]";
@@ -127,7 +141,7 @@ export async function handleVideo(ctx: Context): Promise<void> {
 
     // Create streaming state
     const state = new StreamingState();
-    const statusCallback = createStatusCallback(ctx, state);
+    const statusCallback = createStatusCallback(ctx, state, session);
 
     // Send "Processing..." message before Claude call
     const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -186,4 +200,6 @@ export async function handleVideo(ctx: Context): Promise<void> {
     // skill needs to access it. The skill should handle cleanup, or we rely on
     // temp directory cleanup
   }
+
+  await drainQueue(session);
 }
@@ -4,7 +4,7 @@
 
 import type { Context } from "grammy";
 import { unlinkSync, writeFileSync } from "fs";
-import { session } from "../session";
+import { getSession } from "../session";
 import { ALLOWED_USERS, TEMP_DIR, TRANSCRIPTION_AVAILABLE } from "../config";
 import { isAuthorized, rateLimiter } from "../security";
 import {
@@ -12,10 +12,12 @@ import {
   auditLogRateLimit,
   transcribeVoice,
   startTypingIndicator,
+  queryTimeoutReply,
 } from "../utils";
 import { StreamingState, createStatusCallback } from "./streaming";
 import { autoDocument, formatDocReply } from "../autodoc";
 import { escapeHtml } from "../formatting";
+import { drainQueue, queueIfBusy } from "./text";
 
 /**
  * Handle incoming voice messages.
@@ -25,6 +27,7 @@ export async function handleVoice(ctx: Context): Promise<void> {
   const username = ctx.from?.username || "unknown";
   const chatId = ctx.chat?.id;
   const voice = ctx.message?.voice;
+  const session = getSession(ctx);
 
   if (!userId || !voice || !chatId) {
     return;
@@ -55,7 +58,7 @@ export async function handleVoice(ctx: Context): Promise<void> {
   }
 
   // 4. Mark processing started (allows /stop to work during transcription/classification)
-  const stopProcessing = session.startProcessing();
+  let stopProcessing = session.startProcessing();
 
   // 5. Start typing indicator for transcription
   const typing = startTypingIndicator(ctx);
@@ -101,6 +104,15 @@ export async function handleVoice(ctx: Context): Promise<void> {
       `🎤 "${displayTranscript}"`
     );
 
+    // 8b. Queue if another query is running
+    stopProcessing();
+    if (
+      await queueIfBusy(session, { ctx, text: transcript, kind: "voice", preview: transcript })
+    ) {
+      return;
+    }
+    stopProcessing = session.startProcessing();
+
     // 9. Set conversation title from transcript (if new session)
     if (!session.isActive) {
       const title =
@@ -110,7 +122,7 @@ export async function handleVoice(ctx: Context): Promise<void> {
 
     // 10. Create streaming state and callback
     const state = new StreamingState();
-    const statusCallback = createStatusCallback(ctx, state);
+    const statusCallback = createStatusCallback(ctx, state, session);
 
     // 10b. Send "Processing..." message before Claude call
     const processingMsg = await ctx.reply("Processing...", { disable_notification: true });
@@ -148,7 +160,10 @@ export async function handleVoice(ctx: Context): Promise<void> {
   } catch (error) {
     console.error("Error processing voice:", error);
 
-    if (String(error).includes("abort") || String(error).includes("cancel")) {
+    const timeoutReply = queryTimeoutReply(error);
+    if (timeoutReply) {
+      await ctx.reply(timeoutReply);
+    } else if (String(error).includes("abort") || String(error).includes("cancel")) {
       // Only show "Query stopped" if it was an explicit stop, not an interrupt from a new message
       const wasInterrupt = session.consumeInterruptFlag();
       if (!wasInterrupt) {
@@ -170,4 +185,6 @@ export async function handleVoice(ctx: Context): Promise<void> {
       }
     }
   }
+
+  await drainQueue(session);
 }
@@ -8,9 +8,20 @@
 import { Bot } from "grammy";
 import { autoRetry } from "@grammyjs/auto-retry";
 import { run, sequentialize } from "@grammyjs/runner";
-import { TELEGRAM_TOKEN, ALLOWED_USERS, RESTART_FILE } from "./config";
-import { session } from "./session";
-import { unlinkSync, readFileSync, existsSync } from "fs";
+import {
+  TELEGRAM_TOKEN,
+  ALLOWED_USERS,
+  RESTART_FILE,
+  WORKING_DIR,
+} from "./config";
+import { sequentializeKey } from "./session";
+import { orphanPendingWork, startSessionPruning } from "./session-store";
+import { cancelAllJobs } from "./jobs";
+import { startIpcServer, stopIpcServer } from "./ipc";
+import type { PendingWork } from "./types";
+import { unlinkSync, readFileSync, existsSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { resolve } from "path";
 import {
   handleStart,
   handleNew,
@@ -18,6 +29,17 @@ import {
   handleStop,
   handleStatus,
   handleResume,
+  handleSessions,
+  handleQueue,
+  handleFork,
+  handleModel,
+  handleMode,
+  handleThink,
+  handleUsage,
+  handleTimeout,
+  handleBg,
+  handleJobs,
+  handleCheckpoints,
   handleRestart,
   handleRetry,
   handleSearch,
@@ -38,26 +60,9 @@ const bot = new Bot(TELEGRAM_TOKEN);
 // Auto-retry outbound API calls on rate limits and server errors
 bot.api.config.use(autoRetry());
 
-// Sequentialize non-command messages per user (prevents race conditions)
-// Commands bypass sequentialization so they work immediately
-bot.use(
-  sequentialize((ctx) => {
-    // Commands are not sequentialized - they work immediately
-    if (ctx.message?.text?.startsWith("/")) {
-      return undefined;
-    }
-    // Messages with ! prefix bypass queue (interrupt)
-    if (ctx.message?.text?.startsWith("!")) {
-      return undefined;
-    }
-    // Callback queries (button clicks) are not sequentialized
-    if (ctx.callbackQuery) {
-      return undefined;
-    }
-    // Other messages are sequentialized per chat
-    return ctx.chat?.id.toString();
-  })
-);
+// Sequentialize non-command messages per session (prevents race conditions)
+// Commands, buttons and messages for a busy session bypass it
+bot.use(sequentialize(sequentializeKey));
 
 // ============== Command Handlers ==============
 
@@ -67,6 +72,17 @@ bot.command("clear", handleClear);
 bot.command("stop", handleStop);
 bot.command("status", handleStatus);
 bot.command("resume", handleResume);
+bot.command("sessions", handleSessions);
+bot.command("fork", handleFork);
+bot.command("queue", handleQueue);
+bot.command("model", handleModel);
+bot.command("mode", handleMode);
+bot.command("think", handleThink);
+bot.command("usage", handleUsage);
+bot.command("timeout", handleTimeout);
+bot.command("bg", handleBg);
+bot.command("jobs", handleJobs);
+bot.command("checkpoints", handleCheckpoints);
 bot.command("restart", handleRestart);
 bot.command("retry", handleRetry);
 bot.command("search", handleSearch);
@@ -98,7 +114,7 @@ bot.catch((err) => {
 console.log("=".repeat(50));
 console.log("Claude Telegram Bot - Node.js Edition");
 console.log("=".repeat(50));
-console.log(`Working directory: ${session.currentWorkingDir}`);
+console.log(`Working directory: ${WORKING_DIR}`);
 console.log(`Allowed users: ${ALLOWED_USERS.length}`);
 console.log("Starting bot...");
 
@@ -112,6 +128,17 @@ await bot.api.setMyCommands([
   { command: "stop", description: "Stop current query" },
   { command: "status", description: "Show session status" },
   { command: "resume", description: "Resume a saved session" },
+  { command: "sessions", description: "Switch between parallel sessions" },
+  { command: "fork", description: "Branch the conversation into a new session" },
+  { command: "queue", description: "Show and edit queued messages" },
+  { command: "model", description: "Choose the Claude model" },
+  { command: "mode", description: "Choose the permission mode" },
+  { command: "think", description: "Set extended thinking: off, normal, deep, auto" },
+  { command: "usage", description: "Token and cost report" },
+  { command: "timeout", description: "Turn query timeouts on or off" },
+  { command: "bg", description: "Run a prompt as a background job" },
+  { command: "jobs", description: "List and cancel background jobs" },
+  { command: "checkpoints", description: "Undo Claude's file edits" },
   { command: "project", description: "Switch working directory" },
   { command: "gsd", description: "GSD workflow operations" },
   { command: "retry", description: "Retry last message" },
@@ -120,6 +147,32 @@ await bot.api.setMyCommands([
 ]);
 console.log("Command menu registered");
 
+// Collect work that was queued or in flight when the previous run stopped
+const pendingWork = new Map<string, PendingWork[]>();
+try {
+  for (const item of orphanPendingWork()) {
+    const items = pendingWork.get(item.chat_key) || [];
+    items.push(item);
+    pendingWork.set(item.chat_key, items);
+  }
+} catch (e) {
+  console.warn("Failed to load pending work:", e);
+}
+
+function replayKeyboard(count: number) {
+  return {
+    inline_keyboard: [
+      [
+        {
+          text: `▶️ Resume queued work (${count} message${count === 1 ? "" : "s"})`,
+          callback_data: "replay:run",
+        },
+      ],
+      [{ text: "🗑 Discard", callback_data: "replay:discard" }],
+    ],
+  };
+}
+
 // Check for pending restart message to update
 if (existsSync(RESTART_FILE)) {
   try {
@@ -128,11 +181,15 @@ if (existsSync(RESTART_FILE)) {
 
     // Only update if restart was recent (within 30 seconds)
     if (age < 30000 && data.chat_id && data.message_id) {
+      const key = data.chat_key || String(data.chat_id);
+      const pending = pendingWork.get(key);
       await bot.api.editMessageText(
         data.chat_id,
         data.message_id,
-        "✅ Bot restarted"
+        "✅ Bot restarted",
+        pending ? { reply_markup: replayKeyboard(pending.length) } : undefined
       );
+      pendingWork.delete(key);
     }
     unlinkSync(RESTART_FILE);
   } catch (e) {
@@ -141,6 +198,45 @@ if (existsSync(RESTART_FILE)) {
   }
 }
 
+// Offer replay in any other chat that had unfinished work (e.g. after a crash)
+for (const [key, items] of pendingWork) {
+  const [chatId, threadId] = key.split(":");
+  if (!chatId || isNaN(Number(chatId))) continue;
+  try {
+    await bot.api.sendMessage(
+      Number(chatId),
+      "⚠️ Bot restarted with unfinished work",
+      {
+        reply_markup: replayKeyboard(items.length),
+        ...(threadId ? { message_thread_id: Number(threadId) } : {}),
+      }
+    );
+  } catch (e) {
+    console.warn(`Failed to offer replay in ${key}:`, e);
+  }
+}
+
+// Session retention runs hourly, not only when the store opens
+startSessionPruning();
+
+// IPC channel for the ask_user MCP server
+try {
+  await startIpcServer();
+} catch (e) {
+  console.error("Failed to start IPC server (ask_user buttons disabled):", e);
+}
+
+// Remove request files left in tmp by the old file-based ask_user transport
+try {
+  for (const f of readdirSync(tmpdir())) {
+    if (f.startsWith("ask-user-") && f.endsWith(".json")) {
+      unlinkSync(resolve(tmpdir(), f));
+    }
+  }
+} catch (e) {
+  console.debug("Failed to clean up old ask_user files:", e);
+}
+
 // Start with concurrent runner (commands work immediately)
 const runner = run(bot);
 
@@ -154,12 +250,16 @@ const stopRunner = () => {
 
 process.on("SIGINT", () => {
   console.log("Received SIGINT");
+  cancelAllJobs();
+  stopIpcServer();
   stopRunner();
   process.exit(0);
 });
 
 process.on("SIGTERM", () => {
   console.log("Received SIGTERM");
+  cancelAllJobs();
+  stopIpcServer();
   stopRunner();
   process.exit(0);
 });
@@ -0,0 +1,139 @@
+/**
+ * Local IPC channel between the bot and its MCP servers.
+ *
+ * The bot listens on a Unix socket (a named pipe on Windows) under TEMP_DIR.
+ * Every CLI process gets the socket path and its bot session ID in the
+ * environment (TELEGRAM_BOT_IPC, TELEGRAM_BOT_SESSION), which MCP servers
+ * inherit. They send newline-delimited JSON requests and get one JSON reply
+ * per request, routed to the handler of the session that is running the query.
+ */
+
+import { createServer, type Server, type Socket } from "net";
+import { createInterface } from "readline";
+import { existsSync, unlinkSync } from "fs";
+import { resolve } from "path";
+import { ASK_USER_MODE, ASK_USER_TIMEOUT_MS, TEMP_DIR } from "./config";
+
+// ============== Types ==============
+
+export interface IpcRequest {
+  id?: string;
+  type: string;
+  session_id: string;
+  [key: string]: unknown;
+}
+
+export type IpcReply =
+  | { ok: true; [key: string]: unknown }
+  | { ok: false; error: string };
+
+export type IpcHandler = (request: IpcRequest) => Promise<IpcReply>;
+
+// ============== State ==============
+
+export const IPC_SOCKET_PATH =
+  process.platform === "win32"
+    ? `\\\\.\\pipe\\claude-telegram-bot-${process.pid}`
+    : resolve(TEMP_DIR, "bot-ipc.sock");
+
+const sessionHandlers = new Map<number, IpcHandler>();
+let server: Server | null = null;
+
+/**
+ * Register (or with null, remove) the handler for a bot session's requests.
+ * Sessions register one while a CLI query is running.
+ */
+export function setSessionIpcHandler(
+  sessionId: number,
+  handler: IpcHandler | null
+): void {
+  if (handler) {
+    sessionHandlers.set(sessionId, handler);
+  } else {
+    sessionHandlers.delete(sessionId);
+  }
+}
+
+/**
+ * Environment variables that point a CLI process (and its MCP servers) at
+ * the bot and at one session, plus the ask_user mode.
+ */
+export function ipcEnv(sessionId: number): Record<string, string> {
+  return {
+    TELEGRAM_BOT_IPC: IPC_SOCKET_PATH,
+    TELEGRAM_BOT_SESSION: String(sessionId),
+    TELEGRAM_ASK_USER_MODE: ASK_USER_MODE,
+    TELEGRAM_ASK_USER_TIMEOUT_MS: String(ASK_USER_TIMEOUT_MS),
+  };
+}
+
+// ============== Server ==============
+
+async function dispatch(request: IpcRequest): Promise<IpcReply> {
+  const handler = sessionHandlers.get(parseInt(request.session_id, 10));
+  if (!handler) {
+    return { ok: false, error: "No running query for this session" };
+  }
+  return handler(request);
+}
+
+function handleConnection(socket: Socket): void {
+  socket.on("error", (error) => {
+    console.debug("IPC connection error:", error);
+  });
+
+  const rl = createInterface({ input: socket });
+  rl.on("line", async (line) => {
+    let reply: IpcReply;
+    let id: string | undefined;
+    try {
+      const request = JSON.parse(line) as IpcRequest;
+      id = request.id;
+      reply = await dispatch(request);
+    } catch (error) {
+      reply = { ok: false, error: String(error) };
+    }
+
+    if (!socket.destroyed) {
+      socket.write(JSON.stringify({ ...reply, id }) + "\n");
+    }
+  });
+}
+
+/**
+ * Start listening. A socket left behind by a crashed run is removed first.
+ */
+export async function startIpcServer(): Promise<void> {
+  if (server) return;
+
+  if (process.platform !== "win32" && existsSync(IPC_SOCKET_PATH)) {
+    unlinkSync(IPC_SOCKET_PATH);
+  }
+
+  const srv = createServer(handleConnection);
+  await new Promise<void>((resolveListen, rejectListen) => {
+    srv.once("error", rejectListen);
+    srv.listen(IPC_SOCKET_PATH, () => {
+      srv.off("error", rejectListen);
+      resolveListen();
+    });
+  });
+  srv.on("error", (error) => console.error("IPC server error:", error));
+  server = srv;
+
+  console.log(`IPC listening on ${IPC_SOCKET_PATH}`);
+}
+
+/**
+ * Stop listening and remove the socket file.
+ */
+export function stopIpcServer(): void {
+  if (!server) return;
+  server.close();
+  server = null;
+  if (process.platform !== "win32") {
+    try {
+      unlinkSync(IPC_SOCKET_PATH);
+    } catch {}
+  }
+}
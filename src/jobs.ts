@@ -0,0 +1,461 @@
+/**
+ * Background jobs for Claude Telegram Bot.
+ *
+ * `/bg <prompt>` runs a detached `claude -p` query in its own CLI session,
+ * with the chat's current working directory, model and permission mode.
+ * Progress goes to a log file instead of live message edits; when the job
+ * ends the bot posts a summary with buttons to get the full output or to
+ * continue in the job's session.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { createInterface } from "readline";
+import { createWriteStream, mkdirSync, type WriteStream } from "fs";
+import { resolve } from "path";
+import type { Api } from "grammy";
+import { CLAUDE_CLI_PATH, JOBS_DIR, MAX_BACKGROUND_JOBS } from "./config";
+import { escapeHtml } from "./formatting";
+import { buildCliArgs, killProcessTree, type ClaudeSession } from "./session";
+import { upsertSession } from "./session-store";
+import { getToolPolicy } from "./tool-policy";
+import { budgetBlockMessage, recordUsage } from "./usage";
+import type { TokenUsage } from "./types";
+
+// ============== Types ==============
+
+export type JobStatus = "running" | "done" | "failed" | "cancelled";
+
+export interface Job {
+  id: number;
+  chatKey: string;
+  prompt: string;
+  workingDir: string;
+  model: string;
+  logPath: string;
+  status: JobStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  sessionId: string | null;
+  toolCount: number;
+  usage: TokenUsage | null;
+  costUsd: number | null;
+  result: string | null;
+  error: string | null;
+}
+
+// Finished jobs kept for /jobs and the summary buttons
+const MAX_FINISHED_JOBS = 20;
+
+const BACKGROUND_SYSTEM_PROMPT =
+  "BACKGROUND JOB: Nobody is watching this run live and no one can answer questions. Don't ask for input — make reasonable assumptions, note them, and finish the task. End with a short summary of what you did.";
+
+const jobs = new Map<number, Job>();
+const processes = new Map<number, ChildProcess>();
+let nextJobId = 1;
+
+// ============== Helpers ==============
+
+/**
+ * "4m 12s" style duration.
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+}
+
+/**
+ * One-line preview of a job's prompt.
+ */
+export function jobLabel(job: Job, max = 40): string {
+  const prompt = job.prompt.replace(/\s+/g, " ").trim();
+  return prompt.length > max ? `${prompt.slice(0, max - 1)}…` : prompt;
+}
+
+/**
+ * Chat ID and forum topic of a session key ("chat" or "chat:thread").
+ */
+function chatTarget(chatKey: string): {
+  chatId: number;
+  threadOptions: { message_thread_id?: number };
+} {
+  const [chatId, threadId] = chatKey.split(":");
+  return {
+    chatId: Number(chatId),
+    threadOptions: threadId ? { message_thread_id: Number(threadId) } : {},
+  };
+}
+
+function logLine(log: WriteStream, text: string): void {
+  const time = new Date().toTimeString().slice(0, 8);
+  log.write(`[${time}] ${text}\n`);
+}
+
+/**
+ * Drop the oldest finished jobs beyond MAX_FINISHED_JOBS.
+ */
+function pruneFinished(): void {
+  const finished = [...jobs.values()].filter((j) => j.status !== "running");
+  for (const job of finished.slice(0, -MAX_FINISHED_JOBS)) {
+    jobs.delete(job.id);
+  }
+}
+
+// ============== Lookup ==============
+
+export function getJob(id: number): Job | null {
+  return jobs.get(id) || null;
+}
+
+/**
+ * A chat's jobs, running first, then most recently started.
+ */
+export function listJobs(chatKey: string): Job[] {
+  return [...jobs.values()]
+    .filter((j) => j.chatKey === chatKey)
+    .sort(
+      (a, b) =>
+        Number(b.status === "running") - Number(a.status === "running") ||
+        b.startedAt.getTime() - a.startedAt.getTime()
+    );
+}
+
+export function runningJobCount(): number {
+  return processes.size;
+}
+
+// ============== Lifecycle ==============
+
+/**
+ * Start a background job with the settings of `session`.
+ * Returns the job, or an error message if it can't start.
+ */
+export function startJob(
+  api: Api,
+  session: ClaudeSession,
+  prompt: string
+): Job | string {
+  if (MAX_BACKGROUND_JOBS > 0 && processes.size >= MAX_BACKGROUND_JOBS) {
+    return `Already running ${processes.size} background jobs (max ${MAX_BACKGROUND_JOBS}). Cancel one with /jobs first.`;
+  }
+
+  try {
+    const blocked = budgetBlockMessage();
+    if (blocked) return blocked;
+  } catch (error) {
+    console.warn(`Budget check failed: ${error}`);
+  }
+
+  mkdirSync(JOBS_DIR, { recursive: true });
+
+  const id = nextJobId++;
+  const job: Job = {
+    id,
+    chatKey: session.key,
+    prompt,
+    workingDir: session.currentWorkingDir,
+    model: session.model,
+    logPath: resolve(JOBS_DIR, `job-${Date.now()}-${id}.log`),
+    status: "running",
+    startedAt: new Date(),
+    finishedAt: null,
+    sessionId: null,
+    toolCount: 0,
+    usage: null,
+    costUsd: null,
+    result: null,
+    error: null,
+  };
+
+  const args = buildCliArgs(
+    session.permissionMode,
+    session.model,
+    getToolPolicy(job.workingDir)
+  );
+  args.push("--append-system-prompt", BACKGROUND_SYSTEM_PROMPT);
+
+  const env = { ...process.env };
+  delete env.CLAUDECODE; // Prevent "nested session" error
+
+  const child = spawn(CLAUDE_CLI_PATH, args, {
+    cwd: job.workingDir,
+    env,
+    stdio: ["pipe", "pipe", "pipe"],
+    shell: process.platform === "win32",
+    detached: process.platform !== "win32",
+  });
+  jobs.set(id, job);
+  processes.set(id, child);
+
+  const log = createWriteStream(job.logPath);
+  log.write(
+    `Background job #${id}\nStarted: ${job.startedAt.toISOString()}\n` +
+      `Working dir: ${job.workingDir}\nModel: ${job.model || "default"}\n\n` +
+      `Prompt:\n${prompt}\n\n---\n\n`
+  );
+
+  child.stdin!.write(prompt);
+  child.stdin!.end();
+
+  console.log(`[${job.chatKey}] Started background job #${id}`);
+
+  void runJob(api, job, child, log);
+  return job;
+}
+
+/**
+ * Read the CLI's event stream into the log, then post the summary.
+ */
+async function runJob(
+  api: Api,
+  job: Job,
+  child: ChildProcess,
+  log: WriteStream
+): Promise<void> {
+  const stderrChunks: string[] = [];
+  child.stderr!.on("data", (chunk: Buffer) => {
+    stderrChunks.push(chunk.toString());
+  });
+
+  const exited = new Promise<number | null>((resolveExit) => {
+    child.on("close", (code) => resolveExit(code));
+    child.on("error", (error) => {
+      job.error = error.message;
+      resolveExit(null);
+    });
+  });
+
+  try {
+    const rl = createInterface({ input: child.stdout! });
+    for await (const line of rl) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let event: any;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        continue; // Skip non-JSON lines (e.g. debug output)
+      }
+
+      if (event.session_id && !job.sessionId) {
+        job.sessionId = event.session_id;
+        logLine(log, `Session ${event.session_id}`);
+      }
+
+      if (event.type === "assistant" && event.message?.content) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        for (const block of event.message.content as any[]) {
+          if (block.type === "text" && block.text) {
+            logLine(log, `💬 ${block.text}`);
+          } else if (block.type === "tool_use") {
+            job.toolCount++;
+            const input = JSON.stringify(block.input || {});
+            logLine(
+              log,
+              `🔧 ${block.name} ${input.length > 300 ? `${input.slice(0, 300)}…` : input}`
+            );
+          }
+        }
+      }
+
+      if (event.type === "result") {
+        job.result = event.result || null;
+        job.costUsd =
+          typeof event.total_cost_usd === "number" ? event.total_cost_usd : null;
+        if (event.usage) {
+          job.usage = {
+            input_tokens: event.usage.input_tokens || 0,
+            output_tokens: event.usage.output_tokens || 0,
+            cache_read_input_tokens: event.usage.cache_read_input_tokens || 0,
+            cache_creation_input_tokens:
+              event.usage.cache_creation_input_tokens || 0,
+          };
+        }
+        if (event.is_error) {
+          job.error = job.result || "CLI reported an error";
+        }
+
+        try {
+          recordUsage({
+            chatKey: job.chatKey,
+            sessionId: job.sessionId,
+            workingDir: job.workingDir,
+            model: Object.keys(event.modelUsage || {})[0] || job.model,
+            usage: job.usage || { input_tokens: 0, output_tokens: 0 },
+            costUsd: job.costUsd || 0,
+            numTurns: event.num_turns || 0,
+            durationMs: event.duration_ms || 0,
+          });
+        } catch (error) {
+          console.warn(`Failed to record job usage: ${error}`);
+        }
+      }
+    }
+  } catch (error) {
+    job.error = String(error);
+  }
+
+  const code = await exited;
+  processes.delete(job.id);
+  job.finishedAt = new Date();
+
+  if (job.status !== "cancelled") {
+    if (!job.error && code !== 0 && job.result === null) {
+      job.error =
+        stderrChunks.join("").trim().slice(0, 500) || `CLI exited with code ${code}`;
+    }
+    job.status = job.error ? "failed" : "done";
+  }
+
+  logLine(
+    log,
+    job.status === "done" ? "Finished" : `${job.status}: ${job.error || ""}`
+  );
+  if (job.result) {
+    log.write(`\n---\n\nResult:\n${job.result}\n`);
+  }
+  log.end();
+
+  // Make the session resumable via "Continue" and /resume
+  if (job.sessionId) {
+    try {
+      upsertSession({
+        session_id: job.sessionId,
+        chat_key: job.chatKey,
+        title: `bg: ${jobLabel(job, 50)}`,
+        working_dir: job.workingDir,
+      });
+    } catch (error) {
+      console.warn(`Failed to save job session: ${error}`);
+    }
+  }
+
+  console.log(`[${job.chatKey}] Background job #${job.id} ${job.status}`);
+  pruneFinished();
+
+  const { chatId, threadOptions } = chatTarget(job.chatKey);
+  if (isNaN(chatId)) return;
+  try {
+    await api.sendMessage(chatId, buildJobSummary(job), {
+      parse_mode: "HTML",
+      reply_markup: jobSummaryKeyboard(job),
+      ...threadOptions,
+    });
+  } catch (error) {
+    console.warn(`Failed to post job #${job.id} summary:`, error);
+  }
+}
+
+/**
+ * Cancel a running job of a chat. Returns false if it isn't running, or
+ * belongs to another chat.
+ */
+export function cancelJob(id: number, chatKey: string): boolean {
+  const job = jobs.get(id);
+  const child = processes.get(id);
+  if (!job || job.chatKey !== chatKey || !child?.pid) return false;
+
+  job.status = "cancelled";
+  killProcessTree(child.pid);
+  console.log(`[${job.chatKey}] Cancelled background job #${id}`);
+  return true;
+}
+
+/**
+ * Kill all running jobs (bot shutdown).
+ */
+export function cancelAllJobs(): void {
+  for (const id of [...processes.keys()]) {
+    const job = jobs.get(id);
+    if (job) cancelJob(id, job.chatKey);
+  }
+}
+
+// ============== Messages ==============
+
+const STATUS_ICONS: Record<JobStatus, string> = {
+  running: "⏳",
+  done: "✅",
+  failed: "❌",
+  cancelled: "🛑",
+};
+
+/**
+ * Completion message: duration, tool count, token usage and a result preview.
+ */
+export function buildJobSummary(job: Job): string {
+  const duration = formatDuration(
+    (job.finishedAt || new Date()).getTime() - job.startedAt.getTime()
+  );
+  const stats = [duration, `${job.toolCount} tool${job.toolCount === 1 ? "" : "s"}`];
+  if (job.usage) {
+    stats.push(
+      `${formatTokens(job.usage.input_tokens + (job.usage.cache_read_input_tokens || 0))} in / ${formatTokens(job.usage.output_tokens)} out`
+    );
+  }
+  if (job.costUsd !== null) {
+    stats.push(`$${job.costUsd.toFixed(2)}`);
+  }
+
+  const lines = [
+    `${STATUS_ICONS[job.status]} <b>Background job #${job.id} ${job.status}</b>`,
+    `<i>${escapeHtml(jobLabel(job, 80))}</i>`,
+    stats.join(" · "),
+  ];
+
+  const detail = job.status === "failed" ? job.error : job.result;
+  if (detail) {
+    const preview = detail.length > 800 ? `${detail.slice(0, 800)}…` : detail;
+    lines.push("", escapeHtml(preview));
+  }
+  return lines.join("\n");
+}
+
+function jobSummaryKeyboard(job: Job) {
+  const row = [{ text: "📄 Full output", callback_data: `job:output:${job.id}` }];
+  if (job.sessionId) {
+    row.push({ text: "💬 Continue", callback_data: `job:continue:${job.id}` });
+  }
+  return { inline_keyboard: [row] };
+}
+
+/**
+ * /jobs listing with a Cancel button per running job.
+ */
+export function buildJobsMessage(chatKey: string): {
+  text: string;
+  keyboard: { inline_keyboard: { text: string; callback_data: string }[][] };
+} {
+  const chatJobs = listJobs(chatKey);
+  if (chatJobs.length === 0) {
+    return {
+      text: "No background jobs. Start one with /bg &lt;prompt&gt;.",
+      keyboard: { inline_keyboard: [] },
+    };
+  }
+
+  const lines = ["⚙️ <b>Background jobs</b>", ""];
+  const buttons: { text: string; callback_data: string }[][] = [];
+  for (const job of chatJobs) {
+    const elapsed = formatDuration(
+      (job.finishedAt || new Date()).getTime() - job.startedAt.getTime()
+    );
+    lines.push(
+      `${STATUS_ICONS[job.status]} #${job.id} ${escapeHtml(jobLabel(job))} ` +
+        `<i>(${elapsed}, ${job.toolCount} tools)</i>`
+    );
+    if (job.status === "running") {
+      buttons.push([
+        { text: `🛑 Cancel #${job.id}`, callback_data: `job:cancel:${job.id}` },
+      ]);
+    }
+  }
+  buttons.push([{ text: "🔄 Refresh", callback_data: "job:refresh" }]);
+
+  return { text: lines.join("\n"), keyboard: { inline_keyboard: buttons } };
+}
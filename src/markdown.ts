@@ -0,0 +1,974 @@
+/**
+ * Markdown parser for Claude Telegram Bot.
+ *
+ * Parses the Markdown Claude writes (CommonMark plus the GFM tables,
+ * strikethrough, task lists and autolinks) into a small AST and renders it as
+ * Telegram's HTML subset. Rendering from a tree keeps every tag balanced, so
+ * the Bot API never rejects a message for its markup.
+ *
+ * Chat output isn't a document, so a few rules are relaxed: single newlines
+ * stay line breaks, indented code blocks and setext headings aren't
+ * recognised, and an unclosed code fence runs to the end of the text (a
+ * streaming answer shows its code block while it's still being written).
+ * Beyond Markdown, ||spoiler|| and the inline tags Telegram supports (<u>,
+ * <s>, <tg-spoiler>, ...) are understood.
+ */
+
+// ============== Types ==============
+
+export type InlineStyle = "strong" | "em" | "strike" | "underline" | "spoiler";
+
+export type Inline =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "link"; href: string; children: Inline[] }
+  | { type: InlineStyle; children: Inline[] };
+
+export interface ListItem {
+  checked: boolean | null; // Task list box, null for plain items
+  blocks: Block[];
+}
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export type Block =
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "heading"; level: number; children: Inline[] }
+  | { type: "code"; lang: string; value: string }
+  | { type: "quote"; children: Block[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | { type: "table"; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: "rule" };
+
+// ============== Block Parsing ==============
+
+const FENCE_RE = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const HEADING_RE = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_RE = /^ {0,3}> ?/;
+// Any indentation: without indented code blocks, deep nesting is still a list
+const LIST_RE = /^([ \t]*)([-*+]|\d{1,9}[.)])(?=[ \t]|$)([ \t]*)(.*)$/;
+const TASK_RE = /^\[([ xX])\][ \t]+/;
+const TABLE_DELIMITER_RE = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+interface Fence {
+  indent: number;
+  marker: string;
+  lang: string;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === "";
+}
+
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const ch of line) {
+    if (ch === " ") width++;
+    else if (ch === "\t") width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+}
+
+/**
+ * Remove up to `width` columns of leading whitespace.
+ */
+function stripIndent(line: string, width: number): string {
+  let removed = 0;
+  let i = 0;
+  while (i < line.length && removed < width) {
+    if (line[i] === " ") removed++;
+    else if (line[i] === "\t") removed += 4 - (removed % 4);
+    else break;
+    i++;
+  }
+  return line.slice(i);
+}
+
+function matchFence(line: string): Fence | null {
+  const match = line.match(FENCE_RE);
+  if (!match) return null;
+  const [, indent, marker, info] = match as [string, string, string, string];
+  // ```foo``` on one line is inline code, not a fence
+  if (marker[0] === "`" && info.includes("`")) return null;
+  return {
+    indent: indent.length,
+    marker,
+    lang: info.trim().split(/\s+/)[0] || "",
+  };
+}
+
+function isListItem(line: string): boolean {
+  const match = line.match(LIST_RE);
+  return !!match && match[4]!.trim() !== "" && !RULE_RE.test(line);
+}
+
+/**
+ * Whether a line starts a block that ends the paragraph before it.
+ */
+function isBlockStart(line: string): boolean {
+  return (
+    !!matchFence(line) ||
+    HEADING_RE.test(line) ||
+    RULE_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    isListItem(line)
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === "\\" && row[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (row[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[i];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function isTableStart(lines: string[], i: number): boolean {
+  const header = lines[i]!;
+  const delimiter = lines[i + 1];
+  return (
+    header.includes("|") &&
+    delimiter !== undefined &&
+    delimiter.includes("|") &&
+    TABLE_DELIMITER_RE.test(delimiter) &&
+    splitTableRow(header).length === splitTableRow(delimiter).length
+  );
+}
+
+function parseCodeFence(lines: string[], start: number, fence: Fence): [Block, number] {
+  const body: string[] = [];
+  let closed = false;
+  let i = start + 1;
+  while (i < lines.length && !closed) {
+    const line = lines[i++]!;
+    const close = line.match(/^ {0,3}(`{3,}|~{3,})[ \t]*$/);
+    closed =
+      !!close && close[1]![0] === fence.marker[0] && close[1]!.length >= fence.marker.length;
+    if (!closed) body.push(stripIndent(line, fence.indent));
+  }
+  // An unclosed fence is still being written: drop its trailing newlines
+  while (!closed && body.length > 0 && isBlank(body[body.length - 1]!)) body.pop();
+  return [{ type: "code", lang: fence.lang, value: body.join("\n") }, i];
+}
+
+function parseQuote(lines: string[], start: number): [Block, number] {
+  const inner: string[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (QUOTE_RE.test(line)) {
+      inner.push(line.replace(QUOTE_RE, ""));
+    } else if (
+      // Lazy continuation of a quoted paragraph
+      !isBlank(line) &&
+      inner.length > 0 &&
+      !isBlank(inner[inner.length - 1]!) &&
+      !isBlockStart(line)
+    ) {
+      inner.push(line);
+    } else {
+      break;
+    }
+    i++;
+  }
+  return [{ type: "quote", children: parseBlocks(inner) }, i];
+}
+
+function parseList(lines: string[], start: number): [Block, number] {
+  const first = lines[start]!.match(LIST_RE)!;
+  const ordered = /\d/.test(first[2]!);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i]!.match(LIST_RE);
+    if (!match || /\d/.test(match[2]!) !== ordered || RULE_RE.test(lines[i]!)) break;
+
+    const markerIndent = indentWidth(match[1]!);
+    const markerEnd = markerIndent + match[2]!.length;
+    const spaces = match[3]!.length;
+    // Content column; nested blocks may be indented less, as long as they're
+    // indented past the marker (Claude often nests by two spaces under "1.")
+    const contentIndent = spaces === 0 || spaces > 4 ? markerEnd + 1 : markerEnd + spaces;
+    const nestIndent = Math.min(contentIndent, markerIndent + 2);
+
+    let content = match[4]!;
+    let checked: boolean | null = null;
+    const task = content.match(TASK_RE);
+    if (task) {
+      checked = task[1] !== " ";
+      content = content.slice(task[0].length);
+    }
+
+    const itemLines = [content];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i]!;
+      if (isBlank(line)) {
+        // Blank lines stay in the item only if it continues after them
+        let next = i;
+        while (next < lines.length && isBlank(lines[next]!)) next++;
+        if (next < lines.length && indentWidth(lines[next]!) >= nestIndent) {
+          for (; i < next; i++) itemLines.push("");
+          continue;
+        }
+        break;
+      }
+      if (indentWidth(line) >= nestIndent) {
+        itemLines.push(stripIndent(line, contentIndent));
+      } else if (!isBlank(itemLines[itemLines.length - 1]!) && !isBlockStart(line)) {
+        itemLines.push(line); // Lazy continuation
+      } else {
+        break;
+      }
+      i++;
+    }
+    items.push({ checked, blocks: parseBlocks(itemLines) });
+
+    // Blank lines between items don't end the list
+    let next = i;
+    while (next < lines.length && isBlank(lines[next]!)) next++;
+    const sibling = next < lines.length ? lines[next]!.match(LIST_RE) : null;
+    if (!sibling || /\d/.test(sibling[2]!) !== ordered) break;
+    i = next;
+  }
+
+  return [
+    { type: "list", ordered, start: ordered ? parseInt(first[2]!, 10) : 1, items },
+    i,
+  ];
+}
+
+function parseTable(lines: string[], start: number): [Block, number] {
+  const header = splitTableRow(lines[start]!);
+  const align = splitTableRow(lines[start + 1]!).map((cell): TableAlign => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    return left && right ? "center" : right ? "right" : left ? "left" : null;
+  });
+
+  const rows: Inline[][][] = [];
+  let i = start + 2;
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (isBlank(line) || !line.includes("|") || isBlockStart(line)) break;
+    const cells = splitTableRow(line);
+    rows.push(header.map((_, c) => parseInline(cells[c] || "")));
+    i++;
+  }
+
+  return [
+    { type: "table", align, header: header.map((cell) => parseInline(cell)), rows },
+    i,
+  ];
+}
+
+function parseParagraph(lines: string[], start: number): [Block, number] {
+  const text: string[] = [lines[start]!.trim()];
+  let i = start + 1;
+  while (
+    i < lines.length &&
+    !isBlank(lines[i]!) &&
+    !isBlockStart(lines[i]!) &&
+    !isTableStart(lines, i)
+  ) {
+    text.push(lines[i]!.trim());
+    i++;
+  }
+  return [{ type: "paragraph", children: parseInline(text.join("\n")) }, i];
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    let parsed: [Block, number];
+    const fence = matchFence(line);
+    const heading = line.match(HEADING_RE);
+    if (fence) {
+      parsed = parseCodeFence(lines, i, fence);
+    } else if (heading) {
+      parsed = [
+        {
+          type: "heading",
+          level: heading[1]!.length,
+          children: parseInline(heading[2] || ""),
+        },
+        i + 1,
+      ];
+    } else if (RULE_RE.test(line)) {
+      parsed = [{ type: "rule" }, i + 1];
+    } else if (QUOTE_RE.test(line)) {
+      parsed = parseQuote(lines, i);
+    } else if (LIST_RE.test(line)) {
+      parsed = parseList(lines, i);
+    } else if (isTableStart(lines, i)) {
+      parsed = parseTable(lines, i);
+    } else {
+      parsed = parseParagraph(lines, i);
+    }
+
+    blocks.push(parsed[0]);
+    i = parsed[1];
+  }
+  return blocks;
+}
+
+/**
+ * Parse Markdown text into blocks.
+ */
+export function parseMarkdown(text: string): Block[] {
+  return parseBlocks(text.replace(/\r\n?/g, "\n").split("\n"));
+}
+
+// ============== Inline Parsing ==============
+
+interface Delimiter {
+  type: "delimiter";
+  char: string;
+  count: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineItem = Inline | Delimiter;
+
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+const WHITESPACE = /\s/;
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+
+// Inline HTML tags kept from the source: those Telegram supports
+const HTML_TAGS: Record<string, InlineStyle> = {
+  b: "strong",
+  strong: "strong",
+  i: "em",
+  em: "em",
+  u: "underline",
+  ins: "underline",
+  s: "strike",
+  del: "strike",
+  strike: "strike",
+  "tg-spoiler": "spoiler",
+};
+
+function runLength(text: string, start: number, char: string): number {
+  let end = start;
+  while (text[end] === char) end++;
+  return end - start;
+}
+
+/**
+ * End of a code span opened by `length` backticks, or -1 if it's never closed.
+ */
+function findCodeSpanEnd(text: string, from: number, length: number): number {
+  let i = text.indexOf("`", from);
+  while (i !== -1) {
+    const run = runLength(text, i, "`");
+    if (run === length) return i;
+    i = text.indexOf("`", i + run);
+  }
+  return -1;
+}
+
+/**
+ * Parse [label](destination "title") starting at the "[" at `start`.
+ */
+function parseLink(
+  text: string,
+  start: number
+): { label: string; href: string; end: number } | null {
+  // Label: up to the matching "]"
+  let depth = 0;
+  let i = start;
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") i++;
+    else if (ch === "[") depth++;
+    else if (ch === "]" && --depth === 0) break;
+  }
+  if (i >= text.length || text[i + 1] !== "(") return null;
+  const label = text.slice(start + 1, i);
+
+  // Destination: <...> or up to whitespace / the unbalanced ")"
+  i += 2;
+  while (text[i] === " ") i++;
+  let href = "";
+  if (text[i] === "<") {
+    const close = text.indexOf(">", i);
+    if (close === -1) return null;
+    href = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let parens = 0;
+    for (; i < text.length; i++) {
+      const ch = text[i]!;
+      if (ch === "\\" && i + 1 < text.length && ESCAPABLE.test(text[i + 1]!)) {
+        href += text[++i];
+        continue;
+      }
+      if (WHITESPACE.test(ch)) break;
+      if (ch === "(") parens++;
+      if (ch === ")" && parens-- === 0) break;
+      href += ch;
+    }
+  }
+
+  // Optional title, ignored
+  while (text[i] === " ") i++;
+  const quote = text[i];
+  if (quote === '"' || quote === "'") {
+    const close = text.indexOf(quote, i + 1);
+    if (close === -1) return null;
+    i = close + 1;
+    while (text[i] === " ") i++;
+  }
+  if (text[i] !== ")") return null;
+  return { label, href, end: i + 1 };
+}
+
+/**
+ * Parse a supported inline HTML element (<u>...</u>) or <br> at `start`.
+ */
+function parseHtmlTag(text: string, start: number): { node: Inline; end: number } | null {
+  const br = text.slice(start).match(/^<br\s*\/?>/i);
+  if (br) {
+    return { node: { type: "text", value: "\n" }, end: start + br[0].length };
+  }
+
+  const open = text.slice(start).match(/^<([a-z-]+)>/i);
+  const style = open ? HTML_TAGS[open[1]!.toLowerCase()] : undefined;
+  if (!open || !style) return null;
+
+  // Find the matching close tag, allowing the same tag to nest
+  const name = open[1]!.toLowerCase();
+  const tags = new RegExp(`<(/?)${name}>`, "gi");
+  tags.lastIndex = start + open[0].length;
+  let depth = 1;
+  for (let m = tags.exec(text); m; m = tags.exec(text)) {
+    depth += m[1] ? -1 : 1;
+    if (depth === 0) {
+      const inner = text.slice(start + open[0].length, m.index);
+      return {
+        node: { type: style, children: parseInline(inner) },
+        end: m.index + m[0].length,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Pair up emphasis delimiters (CommonMark's "process emphasis", simplified):
+ * each closer takes the nearest compatible opener, and the items between them
+ * become the children of a new node.
+ */
+function processEmphasis(items: InlineItem[]): Inline[] {
+  let i = 0;
+  while (i < items.length) {
+    const closer = items[i]!;
+    if (closer.type !== "delimiter" || !closer.canClose || closer.count === 0) {
+      i++;
+      continue;
+    }
+
+    let openerIndex = -1;
+    for (let j = i - 1; j >= 0; j--) {
+      const opener = items[j]!;
+      if (
+        opener.type !== "delimiter" ||
+        opener.char !== closer.char ||
+        !opener.canOpen ||
+        opener.count === 0
+      ) {
+        continue;
+      }
+      // "Rule of three": ***a** b* style runs don't pair across sizes
+      if (
+        (opener.canClose || closer.canOpen) &&
+        (opener.count + closer.count) % 3 === 0 &&
+        !(opener.count % 3 === 0 && closer.count % 3 === 0)
+      ) {
+        continue;
+      }
+      openerIndex = j;
+      break;
+    }
+    if (openerIndex === -1) {
+      i++;
+      continue;
+    }
+
+    const opener = items[openerIndex] as Delimiter;
+    const used = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const type: InlineStyle =
+      closer.char === "~"
+        ? "strike"
+        : closer.char === "|"
+          ? "spoiler"
+          : used === 2
+            ? "strong"
+            : "em";
+    opener.count -= used;
+    closer.count -= used;
+
+    const children = finishInline(items.slice(openerIndex + 1, i));
+    items.splice(openerIndex + 1, i - openerIndex - 1, { type, children });
+    // Look at the closer again: it may have delimiters left
+    i = openerIndex + 2;
+  }
+  return finishInline(items);
+}
+
+/**
+ * Turn unmatched delimiters back into text and merge adjacent text nodes.
+ */
+function finishInline(items: InlineItem[]): Inline[] {
+  const result: Inline[] = [];
+  for (const item of items) {
+    const node: Inline | null =
+      item.type === "delimiter"
+        ? item.count > 0
+          ? { type: "text", value: item.char.repeat(item.count) }
+          : null
+        : item;
+    if (!node) continue;
+    const last = result[result.length - 1];
+    if (node.type === "text" && last?.type === "text") {
+      result[result.length - 1] = { type: "text", value: last.value + node.value };
+    } else {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse inline Markdown: code spans, emphasis, strikethrough, spoilers, links
+ * and supported HTML tags.
+ */
+export function parseInline(text: string): Inline[] {
+  const items: InlineItem[] = [];
+  let buffer = "";
+  const flush = () => {
+    if (buffer) items.push({ type: "text", value: buffer });
+    buffer = "";
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === "\\" && i + 1 < text.length) {
+      const next = text[i + 1]!;
+      if (next === "\n" || ESCAPABLE.test(next)) {
+        buffer += next; // A backslash before a newline is a hard break
+        i += 2;
+        continue;
+      }
+    }
+
+    if (ch === "`") {
+      const run = runLength(text, i, "`");
+      const end = findCodeSpanEnd(text, i + run, run);
+      if (end === -1) {
+        buffer += "`".repeat(run);
+        i += run;
+        continue;
+      }
+      let value = text.slice(i + run, end).replace(/\n/g, " ");
+      if (/^ .*[^ ].* $/.test(value)) value = value.slice(1, -1);
+      flush();
+      items.push({ type: "code", value });
+      i = end + run;
+      continue;
+    }
+
+    if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+      const link = parseLink(text, ch === "!" ? i + 1 : i);
+      if (link) {
+        flush();
+        items.push({ type: "link", href: link.href, children: parseInline(link.label) });
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === "<") {
+      const autolink = text.slice(i).match(/^<((?:https?|ftp|mailto|tg):[^\s<>]+)>/i);
+      if (autolink) {
+        flush();
+        items.push({
+          type: "link",
+          href: autolink[1]!,
+          children: [{ type: "text", value: autolink[1]! }],
+        });
+        i += autolink[0].length;
+        continue;
+      }
+      const tag = parseHtmlTag(text, i);
+      if (tag) {
+        flush();
+        items.push(tag.node);
+        i = tag.end;
+        continue;
+      }
+    }
+
+    if (ch === "*" || ch === "_" || ch === "~" || ch === "|") {
+      const run = runLength(text, i, ch);
+      // ~~strike~~ and ||spoiler|| only; a lone ~ or | is text ("~5 min")
+      if ((ch === "~" || ch === "|") && run !== 2) {
+        buffer += ch.repeat(run);
+        i += run;
+        continue;
+      }
+
+      const before = text[i - 1] ?? " ";
+      const after = text[i + run] ?? " ";
+      const leftFlanking =
+        !WHITESPACE.test(after) &&
+        (!PUNCTUATION.test(after) || WHITESPACE.test(before) || PUNCTUATION.test(before));
+      const rightFlanking =
+        !WHITESPACE.test(before) &&
+        (!PUNCTUATION.test(before) || WHITESPACE.test(after) || PUNCTUATION.test(after));
+      // Underscores inside words (snake_case) never emphasize
+      const canOpen =
+        ch === "_" ? leftFlanking && (!rightFlanking || PUNCTUATION.test(before)) : leftFlanking;
+      const canClose =
+        ch === "_" ? rightFlanking && (!leftFlanking || PUNCTUATION.test(after)) : rightFlanking;
+
+      flush();
+      items.push({ type: "delimiter", char: ch, count: run, canOpen, canClose });
+      i += run;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return processEmphasis(items);
+}
+
+// ============== Rendering ==============
+
+/**
+ * A file to send along with the message (a long table or code block).
+ */
+export interface Attachment {
+  filename: string;
+  content: string;
+  caption: string;
+}
+
+export interface RenderOptions {
+  tableMaxWidth?: number; // Wider tables are laid out one record per row
+  tableMaxRows?: number; // Longer tables are attached as CSV
+  codeMaxLines?: number; // Longer code blocks are collapsed or attached
+  longCode?: "expandable" | "file";
+  // Receives the files to attach. Without it (e.g. while streaming) long
+  // tables and code blocks are rendered in full.
+  attachments?: Attachment[];
+}
+
+interface RenderContext {
+  quote: boolean; // Inside a blockquote (they can't nest in Telegram)
+  link: boolean; // Inside a link (links can't nest)
+  options: RenderOptions;
+}
+
+const STYLE_TAGS: Record<InlineStyle, string> = {
+  strong: "b",
+  em: "i",
+  strike: "s",
+  underline: "u",
+  spoiler: "tg-spoiler",
+};
+
+const BULLETS = ["•", "◦", "▪"];
+const LIST_INDENT = "   ";
+
+// Quotes longer than this are collapsed (<blockquote expandable>)
+const EXPANDABLE_QUOTE_LINES = 8;
+const EXPANDABLE_QUOTE_LENGTH = 800;
+
+// Rows of a long table shown above its CSV attachment
+const TABLE_PREVIEW_ROWS = 5;
+// Longer code is attached even in expandable mode (it would span messages)
+const EXPANDABLE_CODE_LENGTH = 3000;
+
+const CODE_EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  shell: "sh",
+  zsh: "sh",
+  console: "sh",
+  javascript: "js",
+  typescript: "ts",
+  python: "py",
+  ruby: "rb",
+  rust: "rs",
+  golang: "go",
+  kotlin: "kt",
+  csharp: "cs",
+  "c#": "cs",
+  "c++": "cpp",
+  yaml: "yml",
+  markdown: "md",
+  patch: "diff",
+  powershell: "ps1",
+  text: "txt",
+  plaintext: "txt",
+};
+
+// Telegram rejects links with other schemes; their text is kept
+const LINK_SCHEME_RE = /^(?:https?|ftp|mailto|tg):/i;
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Text content of inline nodes, without markup.
+ */
+export function plainText(nodes: Inline[]): string {
+  return nodes
+    .map((node) =>
+      node.type === "text" || node.type === "code" ? node.value : plainText(node.children)
+    )
+    .join("");
+}
+
+function renderInline(nodes: Inline[], context: RenderContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          // Strip # in quotes (Telegram mobile bug workaround with hashtags)
+          return escapeText(context.quote ? node.value.replace(/#/g, "") : node.value);
+        case "code":
+          return `<code>${escapeText(node.value)}</code>`;
+        case "link": {
+          const label =
+            renderInline(node.children, { ...context, link: true }) || escapeText(node.href);
+          if (context.link || !LINK_SCHEME_RE.test(node.href)) return label;
+          return `<a href="${escapeText(node.href)}">${label}</a>`;
+        }
+        default: {
+          const inner = renderInline(node.children, context);
+          const tag = STYLE_TAGS[node.type];
+          return inner ? `<${tag}>${inner}</${tag}>` : "";
+        }
+      }
+    })
+    .join("");
+}
+
+function codeExtension(lang: string): string {
+  const name = lang.toLowerCase();
+  if (CODE_EXTENSIONS[name]) return CODE_EXTENSIONS[name];
+  return /^[a-z0-9]{1,6}$/.test(name) ? name : "txt";
+}
+
+function renderCode(
+  block: Extract<Block, { type: "code" }>,
+  context: RenderContext
+): string {
+  const lang = block.lang.replace(/[^\w#+.-]/g, "");
+  const { attachments, codeMaxLines, longCode } = context.options;
+  const lines = block.value.split("\n").length;
+
+  if (attachments && codeMaxLines && lines > codeMaxLines) {
+    const label = `${lang || "code"}, ${lines} lines`;
+    // Telegram can't put <pre> in a quote: the collapsed code is plain text
+    if (
+      longCode !== "file" &&
+      !context.quote &&
+      block.value.length <= EXPANDABLE_CODE_LENGTH
+    ) {
+      return `<blockquote expandable><i>${escapeText(label)}</i>\n${escapeText(block.value)}</blockquote>`;
+    }
+    const filename = `snippet-${attachments.length + 1}.${codeExtension(lang)}`;
+    attachments.push({ filename, content: `${block.value}\n`, caption: label });
+    return `📎 <i>${escapeText(label)}, attached as ${filename}</i>`;
+  }
+
+  const code = escapeText(block.value);
+  return lang
+    ? `<pre><code class="language-${lang}">${code}</code></pre>`
+    : `<pre>${code}</pre>`;
+}
+
+function renderList(
+  list: Extract<Block, { type: "list" }>,
+  depth: number,
+  context: RenderContext
+): string {
+  const indent = LIST_INDENT.repeat(depth);
+
+  return list.items
+    .map((item, n) => {
+      const marker =
+        item.checked !== null
+          ? item.checked
+            ? "☑"
+            : "☐"
+          : list.ordered
+            ? `${list.start + n}.`
+            : BULLETS[depth % BULLETS.length]!;
+      const hanging = indent + " ".repeat(marker.length + 1);
+
+      const parts = item.blocks.map((block, b) => {
+        if (block.type === "list") return renderList(block, depth + 1, context);
+        const html = renderBlock(block, context);
+        // Code, quotes and tables keep their own layout
+        if (block.type !== "paragraph" && block.type !== "heading") return html;
+        const lines = html.split("\n");
+        return lines
+          .map((line, l) => (b === 0 && l === 0 ? `${indent}${marker} ${line}` : hanging + line))
+          .join("\n");
+      });
+
+      const first = item.blocks[0];
+      if (!first || (first.type !== "paragraph" && first.type !== "heading")) {
+        parts.unshift(`${indent}${marker}`);
+      }
+      return parts.filter(Boolean).join("\n");
+    })
+    .join("\n");
+}
+
+function csvField(text: string): string {
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Tables render as aligned <pre> blocks; too wide for a phone, as one
+ * "Header  value" record per row. A long table is attached as CSV when
+ * attachments are collected, with its first rows shown.
+ */
+function renderTable(
+  table: Extract<Block, { type: "table" }>,
+  context: RenderContext
+): string {
+  const { attachments, tableMaxRows, tableMaxWidth } = context.options;
+  const cells = (row: Inline[][]) => row.map((cell) => plainText(cell).replace(/\s+/g, " "));
+  const header = cells(table.header);
+  let body = table.rows.map(cells);
+
+  let note = "";
+  if (attachments && tableMaxRows && body.length > tableMaxRows) {
+    const filename = `table-${attachments.length + 1}.csv`;
+    const csv = [header, ...body].map((row) => row.map(csvField).join(",")).join("\n");
+    attachments.push({
+      filename,
+      content: `${csv}\n`,
+      caption: `${body.length} rows × ${header.length} columns`,
+    });
+    const shown = Math.min(TABLE_PREVIEW_ROWS, tableMaxRows);
+    const more = body.length - shown;
+    note = `\n📎 <i>${more} more row${more === 1 ? "" : "s"} in ${filename}</i>`;
+    body = body.slice(0, shown);
+  }
+
+  const rows = [header, ...body];
+  const widths = header.map((_, c) => Math.max(...rows.map((row) => row[c]!.length)));
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0) + 3 * (widths.length - 1);
+
+  if (tableMaxWidth && totalWidth > tableMaxWidth && header.length > 1) {
+    const labelWidth = Math.max(...header.map((h) => h.length));
+    const records = body.map((row) =>
+      row
+        .map((cell, c) => `${header[c]!.padEnd(labelWidth)}  ${cell}`.trimEnd())
+        .join("\n")
+    );
+    return `<pre>${escapeText(records.join("\n\n"))}</pre>${note}`;
+  }
+
+  const pad = (text: string, c: number): string => {
+    const space = widths[c]! - text.length;
+    if (table.align[c] === "right") return " ".repeat(space) + text;
+    if (table.align[c] === "center") {
+      const left = Math.floor(space / 2);
+      return " ".repeat(left) + text + " ".repeat(space - left);
+    }
+    return text + " ".repeat(space);
+  };
+
+  const lines = rows.map((row) =>
+    row
+      .map((cell, c) => pad(cell, c))
+      .join(" | ")
+      .trimEnd()
+  );
+  lines.splice(1, 0, widths.map((w) => "-".repeat(w)).join("-|-"));
+  return `<pre>${escapeText(lines.join("\n"))}</pre>${note}`;
+}
+
+function renderBlock(block: Block, context: RenderContext): string {
+  switch (block.type) {
+    case "paragraph":
+      return renderInline(block.children, context);
+    case "heading": {
+      const inner = renderInline(block.children, context);
+      return inner ? `<b>${inner}</b>` : "";
+    }
+    case "code":
+      return renderCode(block, context);
+    case "quote": {
+      const inner = renderBlocks(block.children, { ...context, quote: true });
+      if (context.quote || !inner) return inner;
+      const expandable =
+        inner.split("\n").length > EXPANDABLE_QUOTE_LINES ||
+        inner.length > EXPANDABLE_QUOTE_LENGTH;
+      return `<blockquote${expandable ? " expandable" : ""}>${inner}</blockquote>`;
+    }
+    case "list":
+      return renderList(block, 0, context);
+    case "table":
+      return renderTable(block, context);
+    case "rule":
+      return "";
+  }
+}
+
+function renderBlocks(blocks: Block[], context: RenderContext): string {
+  return blocks
+    .map((block) => renderBlock(block, context))
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Render parsed blocks as Telegram HTML.
+ */
+export function renderTelegramHtml(blocks: Block[], options: RenderOptions = {}): string {
+  return renderBlocks(blocks, { quote: false, link: false, options });
+}
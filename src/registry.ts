@@ -4,7 +4,7 @@
  * Reads registry.md and extracts project entries from the markdown table.
  */
 
-import { readFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import { resolve } from "path";
 
 export interface Project {
@@ -13,6 +13,7 @@ export interface Project {
   status: string;
   location: string;
   description: string;
+  tools?: string; // Optional 6th column: tool policy override, see tool-policy.ts
 }
 
 const REGISTRY_PATH = resolve("D:/Projects/_ControlCenter/registry.md");
@@ -66,6 +67,7 @@ export function parseRegistry(): Project[] {
           status: cells[2]!,
           location: cells[3]!.replace(/\\/g, "/"),
           description: cells[4]!,
+          tools: cells[5],
         });
       }
     }
@@ -86,3 +88,15 @@ export function parseRegistry(): Project[] {
 
   return projects;
 }
+
+/**
+ * Find the registry entry whose location is the given directory.
+ * Quietly returns undefined when there is no registry.
+ */
+export function findProjectByDir(dir: string): Project | undefined {
+  if (!existsSync(REGISTRY_PATH)) return undefined;
+  const normalized = dir.replace(/\\/g, "/").toLowerCase();
+  return parseRegistry().find(
+    (p) => p.location.toLowerCase() === normalized
+  );
+}
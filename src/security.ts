@@ -1,12 +1,17 @@
 /**
  * Security module for Claude Telegram Bot.
  *
- * Rate limiting, path validation, command safety.
+ * Rate limiting, path validation, command analysis and safety.
  */
 
-import { resolve, normalize, sep } from "path";
+import { isAbsolute, resolve, normalize, sep } from "path";
 import { realpathSync } from "fs";
-import type { RateLimitBucket } from "./types";
+import type {
+  CommandAnalysis,
+  CommandFinding,
+  CommandKind,
+  RateLimitBucket,
+} from "./types";
 import {
   ALLOWED_PATHS,
   BLOCKED_PATTERNS,
@@ -115,10 +120,813 @@ export function isPathAllowed(path: string): boolean {
   }
 }
 
+// ============== Command Analysis ==============
+
+// Claude's Bash commands are split into simple commands (at &&, ||, ;, | and
+// newlines, including $(...) substitutions and sh -c / cmd /c / powershell
+// -Command payloads), with quotes removed and variables expanded. Each one is
+// classified, and the paths it deletes or writes are resolved against the
+// working dir and checked with isPathAllowed.
+
+type ShellToken =
+  | { kind: "word"; value: string; unresolved: boolean }
+  | { kind: "op"; value: string };
+
+type ShellWord = Extract<ShellToken, { kind: "word" }>;
+
+interface SimpleCommand {
+  words: ShellWord[];
+  writes: ShellWord[]; // Targets of > and >> redirects
+}
+
+interface Classification {
+  kind: CommandKind;
+  targets?: ShellWord[]; // Paths the command deletes or overwrites
+  scope?: ShellWord[]; // Directories whose contents it deletes
+  writes?: ShellWord[]; // Files it creates, moves or modifies
+  note?: string;
+  blocked?: string;
+}
+
+const KIND_ORDER: CommandKind[] = ["read", "write", "network", "destructive"];
+const MAX_NESTING = 4;
+const SEPARATORS = new Set(["&&", "||", ";", ";;", "|", "|&", "&", "(", ")"]);
+const HARMLESS_WRITE_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "nul"]);
+
+const READ_ONLY_PROGRAMS = new Set([
+  "ls", "dir", "cat", "type", "head", "tail", "less", "more", "grep", "egrep",
+  "fgrep", "rg", "ag", "pwd", "cd", "echo", "printf", "wc", "sort", "uniq",
+  "cut", "tr", "diff", "cmp", "which", "where", "whereis", "stat", "file",
+  "du", "df", "tree", "printenv", "date", "whoami", "hostname", "uname", "ps",
+  "jq", "awk", "basename", "dirname", "realpath", "readlink", "test", "[",
+  "true", "false", "md5sum", "sha1sum", "sha256sum", "get-childitem", "gci",
+  "get-content", "gc", "select-string", "get-location", "get-item",
+  "get-process", "test-path", "write-output", "write-host",
+]);
+const DELETE_PROGRAMS = new Set([
+  "rm", "rmdir", "unlink", "shred", "truncate", "del", "erase", "rd",
+  "remove-item", "ri",
+]);
+const DISK_PROGRAMS = new Set(["format", "wipefs", "diskpart", "fdisk", "parted"]);
+const NETWORK_PROGRAMS = new Set([
+  "curl", "wget", "ssh", "scp", "sftp", "rsync", "nc", "ncat", "netcat",
+  "telnet", "ftp", "ping", "nslookup", "dig", "invoke-webrequest", "iwr",
+  "invoke-restmethod", "irm",
+]);
+const PACKAGE_MANAGERS = new Set([
+  "npm", "npx", "pnpm", "yarn", "bun", "pip", "pip3", "uv", "cargo", "go",
+  "gem", "brew", "apt", "apt-get", "choco", "winget", "scoop",
+]);
+const INSTALL_SUBCOMMANDS = new Set([
+  "install", "i", "add", "ci", "update", "upgrade", "get", "fetch", "dlx",
+]);
+const GIT_READ = new Set([
+  "status", "log", "diff", "show", "blame", "rev-parse", "ls-files",
+  "describe", "shortlog", "grep", "reflog",
+]);
+const GIT_NETWORK = new Set(["push", "pull", "fetch", "clone", "ls-remote"]);
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh"]);
+
+// Programs that run the command after their options, with the options that
+// take a separate value
+const WRAPPERS = new Map<string, string[]>([
+  ["sudo", ["-u", "-g", "-h", "-p", "-C"]],
+  ["doas", ["-u"]],
+  ["xargs", ["-I", "-n", "-P", "-L", "-d", "-E", "-s", "-a"]],
+  ["env", ["-u", "-C", "-S"]],
+  ["nice", ["-n"]],
+  ["timeout", ["-s", "-k"]],
+  ["nohup", []],
+  ["time", []],
+  ["command", []],
+  ["exec", []],
+  ["builtin", []],
+]);
+
+function homeDir(): string {
+  return process.env.HOME || process.env.USERPROFILE || "";
+}
+
+function envValue(name: string): string | undefined {
+  return name === "HOME" ? homeDir() || undefined : process.env[name];
+}
+
+/**
+ * Index of the ")" closing the "(" at `open`, skipping quoted text. -1 if none.
+ */
+function findClosingParen(text: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === "'" || c === '"') {
+      quote = c;
+    } else if (c === "\\") {
+      i++;
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")" && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Read a $ expansion at `start`: $NAME, ${NAME}, $env:NAME (PowerShell) or a
+ * $(...) substitution. Unknown variables stay unresolved. Null if unterminated.
+ */
+function readExpansion(
+  text: string,
+  start: number
+): { value: string; unresolved: boolean; end: number; substitution?: string } | null {
+  const rest = text.slice(start + 1);
+
+  if (rest.startsWith("(")) {
+    const close = findClosingParen(text, start + 1);
+    if (close === -1) return null;
+    const inner = text.slice(start + 2, close);
+    // $((...)) is arithmetic, not a command
+    const substitution = inner.startsWith("(") ? undefined : inner;
+    return { value: "", unresolved: true, end: close + 1, substitution };
+  }
+
+  if (rest.startsWith("{")) {
+    const close = text.indexOf("}", start);
+    if (close === -1) return null;
+    const name = text.slice(start + 2, close);
+    const value = /^[A-Za-z_]\w*$/.test(name) ? envValue(name) : undefined;
+    return {
+      value: value ?? text.slice(start, close + 1),
+      unresolved: value === undefined,
+      end: close + 1,
+    };
+  }
+
+  const named = rest.match(/^(?:env:)?([A-Za-z_]\w*)/i);
+  if (named) {
+    const value = envValue(named[1]!);
+    return {
+      value: value ?? "$" + named[0],
+      unresolved: value === undefined,
+      end: start + 1 + named[0].length,
+    };
+  }
+
+  // Positional and special parameters ($1, $@, $?, ...)
+  if (/^[0-9@*#?$!-]/.test(rest)) {
+    return { value: "$" + rest[0], unresolved: true, end: start + 2 };
+  }
+  return { value: "$", unresolved: false, end: start + 1 };
+}
+
+/**
+ * Split a command line into words and operators the way a POSIX shell would
+ * (quotes, escapes, redirects, comments, heredocs). Command substitutions are
+ * collected separately. Null if a quote or substitution is unterminated.
+ */
+function tokenizeShell(
+  command: string
+): { tokens: ShellToken[]; substitutions: string[] } | null {
+  const tokens: ShellToken[] = [];
+  const substitutions: string[] = [];
+  const heredocs: string[] = [];
+  let value = "";
+  let inWord = false;
+  let unresolved = false;
+  let i = 0;
+
+  const endWord = () => {
+    if (inWord) tokens.push({ kind: "word", value, unresolved });
+    value = "";
+    inWord = false;
+    unresolved = false;
+  };
+
+  const expand = (): boolean => {
+    const expansion = readExpansion(command, i);
+    if (!expansion) return false;
+    value += expansion.value;
+    unresolved ||= expansion.unresolved;
+    if (expansion.substitution !== undefined) {
+      substitutions.push(expansion.substitution);
+    }
+    inWord = true;
+    i = expansion.end;
+    return true;
+  };
+
+  while (i < command.length) {
+    const c = command[i]!;
+    const next = command[i + 1];
+
+    if (c === "\n") {
+      endWord();
+      tokens.push({ kind: "op", value: ";" });
+      i++;
+      // Skip the bodies of heredocs opened on this line
+      while (heredocs.length > 0) {
+        const delimiter = heredocs.shift()!;
+        while (i < command.length) {
+          const eol = command.indexOf("\n", i);
+          const line = command.slice(i, eol === -1 ? command.length : eol);
+          i = eol === -1 ? command.length : eol + 1;
+          if (line.trim() === delimiter) break;
+        }
+      }
+      continue;
+    }
+
+    if (c === " " || c === "\t" || c === "\r") {
+      endWord();
+      i++;
+    } else if (c === "#" && !inWord) {
+      const eol = command.indexOf("\n", i);
+      i = eol === -1 ? command.length : eol;
+    } else if (c === "'") {
+      const close = command.indexOf("'", i + 1);
+      if (close === -1) return null;
+      value += command.slice(i + 1, close);
+      inWord = true;
+      i = close + 1;
+    } else if (c === '"') {
+      inWord = true;
+      i++;
+      while (command[i] !== '"') {
+        if (i >= command.length) return null;
+        const q = command[i]!;
+        if (q === "\\" && /["\\$`]/.test(command[i + 1] ?? "")) {
+          value += command[i + 1];
+          i += 2;
+        } else if (q === "$") {
+          if (!expand()) return null;
+        } else if (q === "`") {
+          const close = command.indexOf("`", i + 1);
+          if (close === -1) return null;
+          substitutions.push(command.slice(i + 1, close));
+          unresolved = true;
+          i = close + 1;
+        } else {
+          value += q;
+          i++;
+        }
+      }
+      i++;
+    } else if (c === "`") {
+      const close = command.indexOf("`", i + 1);
+      if (close === -1) return null;
+      substitutions.push(command.slice(i + 1, close));
+      unresolved = true;
+      inWord = true;
+      i = close + 1;
+    } else if (c === "$") {
+      if (!expand()) return null;
+    } else if (c === "%" && /^%[A-Za-z_]\w*%/.test(command.slice(i))) {
+      // cmd.exe variables, expanded when set
+      const match = command.slice(i).match(/^%([A-Za-z_]\w*)%/)!;
+      value += envValue(match[1]!) ?? match[0];
+      inWord = true;
+      i += match[0].length;
+    } else if (c === "~" && !inWord && (next === undefined || /[\s/\\;|&)]/.test(next))) {
+      value += homeDir();
+      inWord = true;
+      i++;
+    } else if (c === "\\") {
+      // Backslash escapes shell syntax only, so Windows paths survive
+      if (next === "\n") {
+        i += 2;
+      } else if (next !== undefined && /[\s"'$`\\|&;()<>*?#~]/.test(next)) {
+        value += next;
+        inWord = true;
+        i += 2;
+      } else {
+        value += c;
+        inWord = true;
+        i++;
+      }
+    } else if (c === ">" || c === "<") {
+      // A file descriptor number before the redirect isn't a word (2>file)
+      if (inWord && /^\d+$/.test(value) && !unresolved) {
+        value = "";
+        inWord = false;
+      } else {
+        endWord();
+      }
+
+      if (command.startsWith("<<<", i)) {
+        tokens.push({ kind: "op", value: "<<<" });
+        i += 3;
+      } else if (command.startsWith("<<", i)) {
+        i += command[i + 2] === "-" ? 3 : 2;
+        while (command[i] === " " || command[i] === "\t") i++;
+        const match = command.slice(i).match(/^(['"]?)([^\s'"|&;<>()]+)\1/);
+        if (match) {
+          heredocs.push(match[2]!);
+          i += match[0].length;
+        }
+      } else if (c === "<") {
+        tokens.push({ kind: "op", value: "<" });
+        i++;
+      } else {
+        let op = ">";
+        i++;
+        if (command[i] === ">") {
+          op = ">>";
+          i++;
+        }
+        if (command[i] === "|") i++;
+        if (command[i] === "&") {
+          // Descriptor duplication (>&2, 2>&1) writes no file
+          i++;
+          while (/[\d-]/.test(command[i] ?? "")) i++;
+        } else {
+          tokens.push({ kind: "op", value: op });
+        }
+      }
+    } else if (c === "&" && next === ">") {
+      endWord();
+      i++; // &> file: the ">" is handled next
+    } else if ("|&;()".includes(c)) {
+      endWord();
+      const pair = c + (next ?? "");
+      if (["&&", "||", "|&", ";;"].includes(pair)) {
+        tokens.push({ kind: "op", value: pair });
+        i += 2;
+      } else {
+        tokens.push({ kind: "op", value: c });
+        i++;
+      }
+    } else {
+      value += c;
+      inWord = true;
+      i++;
+    }
+  }
+  endWord();
+
+  return { tokens, substitutions };
+}
+
+/**
+ * Group tokens into simple commands, collecting redirect targets.
+ */
+function splitCommands(tokens: ShellToken[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let current: SimpleCommand = { words: [], writes: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (token.kind === "word") {
+      current.words.push(token);
+    } else if (SEPARATORS.has(token.value)) {
+      if (current.words.length > 0 || current.writes.length > 0) {
+        commands.push(current);
+      }
+      current = { words: [], writes: [] };
+    } else {
+      // Redirect: the next word is its target
+      const target = tokens[i + 1];
+      if (target?.kind === "word") {
+        if (token.value === ">" || token.value === ">>") {
+          current.writes.push(target);
+        }
+        i++;
+      }
+    }
+  }
+  if (current.words.length > 0 || current.writes.length > 0) {
+    commands.push(current);
+  }
+  return commands;
+}
+
+function programName(word: ShellWord | undefined): string {
+  if (!word) return "";
+  const name = word.value.split(/[\\/]/).pop() || "";
+  return name.toLowerCase().replace(/\.(exe|cmd|bat)$/, "");
+}
+
+/**
+ * Arguments that aren't flags. cmd.exe style /x switches are skipped too when
+ * `slashFlags` is set (del /s /q).
+ */
+function positionalArgs(args: ShellWord[], slashFlags = false): ShellWord[] {
+  const result: ShellWord[] = [];
+  let afterDashes = false;
+  for (const arg of args) {
+    if (!afterDashes && arg.value === "--") {
+      afterDashes = true;
+    } else if (afterDashes) {
+      result.push(arg);
+    } else if (arg.value.startsWith("-") && arg.value.length > 1) {
+      continue;
+    } else if (slashFlags && /^\/[a-z]$/i.test(arg.value)) {
+      continue;
+    } else {
+      result.push(arg);
+    }
+  }
+  return result;
+}
+
+function hasFlag(args: ShellWord[], ...flags: string[]): boolean {
+  return args.some((a) =>
+    flags.some((flag) =>
+      flag.startsWith("--")
+        ? a.value === flag || a.value.startsWith(`${flag}=`)
+        : a.value === flag ||
+          (/^-[A-Za-z]+$/.test(a.value) && a.value.includes(flag.slice(1)))
+    )
+  );
+}
+
+function cwdWord(): ShellWord {
+  return { kind: "word", value: ".", unresolved: false };
+}
+
+function classifyGit(args: ShellWord[]): Classification {
+  // Skip global options (-C dir, -c key=value, --no-pager, ...)
+  let i = 0;
+  while (i < args.length && args[i]!.value.startsWith("-")) {
+    i += args[i]!.value === "-C" || args[i]!.value === "-c" ? 2 : 1;
+  }
+  const sub = args[i]?.value || "";
+  const rest = args.slice(i + 1);
+  const scope = [cwdWord()];
+
+  if (sub === "clean" && hasFlag(rest, "-f", "--force")) {
+    return { kind: "destructive", scope, note: "deletes untracked files" };
+  }
+  if (sub === "reset" && hasFlag(rest, "--hard")) {
+    return { kind: "destructive", scope, note: "discards uncommitted changes" };
+  }
+  if (
+    (sub === "checkout" && rest.some((a) => a.value === "--" || a.value === ".")) ||
+    sub === "restore"
+  ) {
+    return { kind: "destructive", scope, note: "discards uncommitted changes" };
+  }
+  if (sub === "branch" && hasFlag(rest, "-D")) {
+    return { kind: "destructive", scope, note: "force-deletes a branch" };
+  }
+  if (sub === "stash" && ["drop", "clear"].includes(rest[0]?.value || "")) {
+    return { kind: "destructive", scope, note: "drops stashed changes" };
+  }
+  if (sub === "push" && hasFlag(rest, "-f", "--force", "--force-with-lease")) {
+    return { kind: "destructive", note: "force-push rewrites remote history" };
+  }
+  if (GIT_NETWORK.has(sub)) return { kind: "network" };
+  if (GIT_READ.has(sub) || (sub === "branch" && rest.length === 0)) {
+    return { kind: "read" };
+  }
+  return { kind: "write" };
+}
+
+function classifyFind(args: ShellWord[]): Classification {
+  const firstExpression = args.findIndex((a) => /^[-(!]/.test(a.value));
+  const roots = args.slice(0, firstExpression === -1 ? args.length : firstExpression);
+  const expression = args.slice(roots.length);
+
+  const execIndex = expression.findIndex((a) =>
+    ["-exec", "-execdir", "-ok", "-okdir"].includes(a.value)
+  );
+  const execProgram = execIndex === -1 ? "" : programName(expression[execIndex + 1]);
+
+  if (expression.some((a) => a.value === "-delete") || DELETE_PROGRAMS.has(execProgram)) {
+    return {
+      kind: "destructive",
+      scope: roots.length > 0 ? roots : [cwdWord()],
+      note: "deletes matching files",
+    };
+  }
+  return { kind: execProgram && !READ_ONLY_PROGRAMS.has(execProgram) ? "write" : "read" };
+}
+
+/**
+ * Files a write command names as its targets: mv's operands, cp's
+ * destination, the files of chmod / chown, tee's outputs, ...
+ */
+function writeTargets(program: string, args: ShellWord[]): ShellWord[] {
+  const operands = positionalArgs(args);
+  switch (program) {
+    case "mv":
+    case "move":
+    case "move-item":
+    case "touch":
+    case "mkdir":
+    case "md":
+    case "tee":
+      return operands;
+    case "cp":
+    case "copy":
+    case "copy-item":
+    case "ln":
+    case "install": {
+      const flag = args.findIndex((a) => a.value === "-t" || a.value === "--target-directory");
+      if (flag !== -1) return args.slice(flag + 1, flag + 2);
+      const inline = args.find((a) => a.value.startsWith("--target-directory="));
+      if (inline) return [{ ...inline, value: inline.value.slice("--target-directory=".length) }];
+      return operands.length > 1 ? operands.slice(-1) : [];
+    }
+    case "chmod":
+    case "chown":
+    case "chgrp":
+      // The first operand is the mode or owner, unless taken from --reference
+      return hasFlag(args, "--reference") ? operands : operands.slice(1);
+    case "sed":
+      // sed -i SCRIPT FILE...; with -e / -f every operand is a file
+      return hasFlag(args, "-e", "-f", "--expression", "--file") ? operands : operands.slice(1);
+  }
+  return [];
+}
+
+/**
+ * Classify one command by its program and arguments.
+ */
+function classifyCommand(program: string, args: ShellWord[]): Classification {
+  if (DELETE_PROGRAMS.has(program)) {
+    const slashFlags = ["del", "erase", "rd", "rmdir"].includes(program);
+    return { kind: "destructive", targets: positionalArgs(args, slashFlags) };
+  }
+  if (DISK_PROGRAMS.has(program) || program.startsWith("mkfs")) {
+    return { kind: "destructive", blocked: `Disk formatting command: ${program}` };
+  }
+  if (program === "dd") {
+    const output = args.find((a) => a.value.startsWith("of="));
+    return output
+      ? {
+          kind: "destructive",
+          targets: [{ ...output, value: output.value.slice(3) }],
+          note: "overwrites its output file",
+        }
+      : { kind: "read" };
+  }
+  if (program === "find") return classifyFind(args);
+  if (program === "git") return classifyGit(args);
+  if (NETWORK_PROGRAMS.has(program)) return { kind: "network" };
+  if (PACKAGE_MANAGERS.has(program)) {
+    const sub = positionalArgs(args)[0]?.value || "";
+    return { kind: INSTALL_SUBCOMMANDS.has(sub) ? "network" : "write" };
+  }
+  if (program === "sed") {
+    return args.some((a) => /^(-i|--in-place)/.test(a.value))
+      ? { kind: "write", writes: writeTargets(program, args) }
+      : { kind: "read" };
+  }
+  if (READ_ONLY_PROGRAMS.has(program)) return { kind: "read" };
+  return { kind: "write", writes: writeTargets(program, args) };
+}
+
+function isAllowedRoot(path: string): boolean {
+  return [...ALLOWED_PATHS, ...TEMP_PATHS].some(
+    (root) => resolve(root) === resolve(path)
+  );
+}
+
+/**
+ * Analyze one simple command and append its finding(s). Returns the working
+ * directory for the commands after it (cd changes it; null = unknown).
+ */
+function analyzeSimpleCommand(
+  command: SimpleCommand,
+  cwd: string | null,
+  depth: number,
+  findings: CommandFinding[]
+): string | null {
+  let words = [...command.words];
+  const text = words.map((w) => w.value).join(" ");
+
+  // Leading VAR=value assignments
+  while (words.length > 0 && /^[A-Za-z_]\w*=/.test(words[0]!.value)) {
+    words.shift();
+  }
+
+  // Wrappers that run another command: sudo rm, env X=1 rm, xargs rm, ...
+  let elevated = false;
+  let fromStdin = false;
+  for (;;) {
+    const wrapper = programName(words[0]);
+    if (wrapper === "sudo" || wrapper === "doas") {
+      elevated = true;
+    } else if (wrapper === "xargs") {
+      fromStdin = true;
+    } else if (!WRAPPERS.has(wrapper)) {
+      break;
+    }
+    words.shift();
+    while (
+      words.length > 0 &&
+      (words[0]!.value.startsWith("-") || /^[A-Za-z_]\w*=/.test(words[0]!.value))
+    ) {
+      const flag = words.shift()!.value;
+      if (WRAPPERS.get(wrapper)!.includes(flag)) words.shift(); // Option value
+    }
+    if (wrapper === "timeout") words.shift(); // duration
+  }
+
+  const program = programName(words[0]);
+  const args = words.slice(1);
+  const nestedCwd = cwd ?? process.cwd();
+
+  // Commands that run a nested command line
+  const nested = (payload: string | undefined) => {
+    analyzeShell(payload || "", nestedCwd, depth + 1, findings, elevated);
+    return cwd;
+  };
+  if (SHELLS.has(program)) {
+    const flag = args.findIndex((a) => a.value === "-c");
+    if (flag !== -1) return nested(args[flag + 1]?.value);
+  }
+  if (program === "cmd") {
+    const flag = args.findIndex((a) => /^\/[ck]$/i.test(a.value));
+    if (flag !== -1) return nested(args.slice(flag + 1).map((a) => a.value).join(" "));
+  }
+  if (program === "powershell" || program === "pwsh") {
+    if (args.some((a) => /^-e(nc|ncodedcommand)?$/i.test(a.value))) {
+      findings.push({
+        command: text,
+        kind: "destructive",
+        paths: [],
+        blocked: "Encoded PowerShell command",
+      });
+      return cwd;
+    }
+    const flag = args.findIndex((a) => /^-c(ommand)?$/i.test(a.value));
+    if (flag !== -1) return nested(args.slice(flag + 1).map((a) => a.value).join(" "));
+  }
+  if (program === "eval") {
+    return nested(args.map((a) => a.value).join(" "));
+  }
+
+  const classification: Classification = program
+    ? classifyCommand(program, args)
+    : { kind: "read" };
+  const finding: CommandFinding = {
+    command: text.length > 200 ? text.slice(0, 199) + "…" : text,
+    kind: classification.kind,
+    paths: [],
+  };
+  if (program) finding.program = elevated ? `sudo ${program}` : program;
+  const block = (reason: string) => {
+    finding.blocked ??= reason;
+  };
+  if (classification.blocked) block(classification.blocked);
+  if (classification.note) finding.note = classification.note;
+
+  const resolvePath = (word: ShellWord): string | null => {
+    if (isAbsolute(word.value) || /^[A-Za-z]:[\\/]/.test(word.value)) {
+      return resolve(word.value);
+    }
+    return cwd === null ? null : resolve(cwd, word.value);
+  };
+
+  // Deleted paths and affected directories must be inside ALLOWED_PATHS
+  const checkTarget = (word: ShellWord, isScope: boolean) => {
+    if (word.unresolved) {
+      block(`Unresolved variable in ${program} target: ${word.value}`);
+      return;
+    }
+    const path = resolvePath(word);
+    if (path === null) {
+      block(`${program} target in an unknown directory: ${word.value}`);
+      return;
+    }
+    finding.paths.push(path);
+    if (!isPathAllowed(path)) {
+      block(`${program} target outside allowed paths: ${word.value}`);
+    } else if (!isScope && isAllowedRoot(path)) {
+      block(`${program} would delete an allowed directory: ${word.value}`);
+    }
+  };
+  for (const target of classification.targets || []) checkTarget(target, false);
+  for (const dir of classification.scope || []) checkTarget(dir, true);
+
+  // So must the files it writes, like redirect targets below
+  for (const target of classification.writes || []) {
+    if (HARMLESS_WRITE_TARGETS.has(target.value.toLowerCase())) continue;
+    const path = target.unresolved ? null : resolvePath(target);
+    if (path === null) continue;
+    finding.paths.push(path);
+    if (!isPathAllowed(path)) {
+      block(`${program} target outside allowed paths: ${target.value}`);
+    }
+  }
+
+  if (classification.kind === "destructive") {
+    if (elevated) block(`Destructive command run as root: ${program}`);
+    if (fromStdin && !classification.targets?.length) {
+      finding.note = "targets come from stdin";
+    }
+  }
+
+  // Redirects write files
+  for (const target of command.writes) {
+    if (HARMLESS_WRITE_TARGETS.has(target.value.toLowerCase())) continue;
+    if (finding.kind === "read") finding.kind = "write";
+    const path = target.unresolved ? null : resolvePath(target);
+    if (path === null) continue;
+    finding.paths.push(path);
+    if (!isPathAllowed(path)) {
+      block(`Write outside allowed paths: ${target.value}`);
+    }
+  }
+
+  // Configured patterns, matched against the normalized command too
+  const normalized = [program, ...args.map((a) => a.value)].join(" ").toLowerCase();
+  for (const pattern of BLOCKED_PATTERNS) {
+    if (normalized.includes(pattern.toLowerCase())) {
+      block(`Blocked pattern: ${pattern}`);
+    }
+  }
+
+  if (program || command.writes.length > 0) findings.push(finding);
+
+  // cd changes the directory later commands run in
+  if (program === "cd" || program === "set-location" || program === "pushd") {
+    const dir = positionalArgs(args)[0];
+    if (!dir) return homeDir() || cwd;
+    return dir.unresolved ? null : resolvePath(dir);
+  }
+  return cwd;
+}
+
+function analyzeShell(
+  command: string,
+  cwd: string,
+  depth: number,
+  findings: CommandFinding[],
+  elevated = false
+): void {
+  if (depth > MAX_NESTING) {
+    findings.push({
+      command,
+      kind: "destructive",
+      paths: [],
+      blocked: "Command nested too deeply to analyze",
+    });
+    return;
+  }
+
+  const parsed = tokenizeShell(command);
+  if (!parsed) {
+    findings.push({
+      command,
+      kind: "destructive",
+      paths: [],
+      blocked: "Could not parse command (unterminated quote or substitution)",
+    });
+    return;
+  }
+
+  const start = findings.length;
+  for (const substitution of parsed.substitutions) {
+    analyzeShell(substitution, cwd, depth + 1, findings);
+  }
+  let current: string | null = cwd;
+  for (const simple of splitCommands(parsed.tokens)) {
+    current = analyzeSimpleCommand(simple, current, depth, findings);
+  }
+
+  if (elevated) {
+    for (const finding of findings.slice(start)) {
+      if (finding.kind === "destructive") {
+        finding.blocked ??= `Destructive command run as root: ${finding.command}`;
+      }
+    }
+  }
+}
+
+/**
+ * Analyze a shell command line: split it into simple commands, classify each
+ * as read, write, network or destructive, and resolve the paths it deletes or
+ * writes against `cwd`. Unsafe if any simple command is blocked.
+ */
+export function analyzeCommand(command: string, cwd: string): CommandAnalysis {
+  const findings: CommandFinding[] = [];
+  analyzeShell(command, cwd, 0, findings);
+
+  const blocked = findings.find((f) => f.blocked);
+  const kind = findings.reduce<CommandKind>(
+    (worst, f) =>
+      KIND_ORDER.indexOf(f.kind) > KIND_ORDER.indexOf(worst) ? f.kind : worst,
+    "read"
+  );
+  return {
+    safe: !blocked,
+    reason: blocked?.blocked || "",
+    kind,
+    findings,
+  };
+}
+
 // ============== Command Safety ==============
 
 export function checkCommandSafety(
-  command: string
+  command: string,
+  cwd: string = process.cwd()
 ): [safe: boolean, reason: string] {
   const lowerCommand = command.toLowerCase();
 
@@ -129,30 +937,8 @@ export function checkCommandSafety(
     }
   }
 
-  // Special handling for rm commands - validate paths
-  if (lowerCommand.includes("rm ")) {
-    try {
-      // Simple parsing: extract arguments after rm
-      const rmMatch = command.match(/rm\s+(.+)/i);
-      if (rmMatch) {
-        const args = rmMatch[1]!.split(/\s+/);
-        for (const arg of args) {
-          // Skip flags
-          if (arg.startsWith("-") || arg.length <= 1) continue;
-
-          // Check if path is allowed
-          if (!isPathAllowed(arg)) {
-            return [false, `rm target outside allowed paths: ${arg}`];
-          }
-        }
-      }
-    } catch {
-      // If parsing fails, be cautious
-      return [false, "Could not parse rm command for safety check"];
-    }
-  }
-
-  return [true, ""];
+  const analysis = analyzeCommand(command, cwd);
+  return [analysis.safe, analysis.reason];
 }
 
 // ============== Authorization ==============
@@ -0,0 +1,405 @@
+/**
+ * Durable session store for Claude Telegram Bot.
+ *
+ * Keeps every Claude CLI session the bot has started in a SQLite database
+ * (better-sqlite3): title, working dir, timestamps, cumulative token usage
+ * and last context percentage. Old sessions are pruned per the retention settings.
+ * Replaces the 5-entry JSON history that lived in the OS temp dir.
+ *
+ * Also persists each session's message queue and in-flight prompt, so work
+ * interrupted by a restart or crash can be replayed in its conversation
+ * (for a day; older leftovers are dropped).
+ */
+
+import { createRequire } from "module";
+import { dirname } from "path";
+import { existsSync, mkdirSync, readFileSync, unlinkSync } from "fs";
+import {
+  ALLOWED_USERS,
+  SESSION_DB_PATH,
+  SESSION_FILE,
+  SESSION_RETENTION_DAYS,
+  SESSION_RETENTION_MAX,
+} from "./config";
+import type {
+  PendingWork,
+  SessionHistory,
+  StoredSession,
+  TokenUsage,
+} from "./types";
+
+// Retention is applied this often while the bot runs
+const SESSION_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Work left over from a previous run is offered for replay this long
+const PENDING_WORK_TTL_MS = 24 * 60 * 60 * 1000;
+
+// CJS interop for better-sqlite3 (native module, CommonJS only)
+const require = createRequire(import.meta.url);
+
+// ============== DB Connection (lazy singleton) ==============
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let db: any = null;
+
+/**
+ * Open the database, creating the schema and importing the legacy JSON
+ * history on first use. Throws if the database can't be opened.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getDb(): any {
+  if (db) return db;
+
+  mkdirSync(dirname(SESSION_DB_PATH), { recursive: true });
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const Database = require("better-sqlite3");
+  db = new Database(SESSION_DB_PATH);
+  db.pragma("journal_mode = WAL");
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      session_id TEXT PRIMARY KEY,
+      chat_key TEXT NOT NULL DEFAULT '',
+      title TEXT NOT NULL DEFAULT '',
+      working_dir TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL,
+      last_used_at TEXT NOT NULL,
+      input_tokens INTEGER NOT NULL DEFAULT 0,
+      output_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+      cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+      context_percent INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS sessions_chat_last_used
+      ON sessions (chat_key, last_used_at DESC);
+
+    CREATE TABLE IF NOT EXISTS pending_work (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_key TEXT NOT NULL,
+      session_name TEXT NOT NULL,
+      session_id TEXT,
+      kind TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      orphaned INTEGER NOT NULL DEFAULT 0
+    );
+  `);
+
+  // Databases from before pending work kept its CLI session
+  const pendingColumns = db.prepare("PRAGMA table_info(pending_work)").all() as Array<{
+    name: string;
+  }>;
+  if (!pendingColumns.some((c) => c.name === "session_id")) {
+    db.exec("ALTER TABLE pending_work ADD COLUMN session_id TEXT");
+  }
+
+  console.log(`[session-store] Opened ${SESSION_DB_PATH}`);
+
+  importLegacyHistory();
+  claimLegacySessions();
+  pruneSessions();
+
+  return db;
+}
+
+/**
+ * Import the old JSON session history once, then remove the file.
+ */
+function importLegacyHistory(): void {
+  if (!existsSync(SESSION_FILE)) return;
+
+  try {
+    const history = JSON.parse(
+      readFileSync(SESSION_FILE, "utf-8")
+    ) as SessionHistory;
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO sessions
+        (session_id, chat_key, title, working_dir, created_at, last_used_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const s of history.sessions || []) {
+      insert.run(
+        s.session_id,
+        s.chat_key || "",
+        s.title || "",
+        s.working_dir || "",
+        s.saved_at,
+        s.saved_at
+      );
+    }
+    unlinkSync(SESSION_FILE);
+    console.log(
+      `[session-store] Imported ${history.sessions?.length || 0} sessions from ${SESSION_FILE}`
+    );
+  } catch (error) {
+    console.warn("[session-store] Failed to import legacy history:", error);
+  }
+}
+
+/**
+ * Give sessions saved without a chat (chat_key '') to the only allowed user's
+ * private chat. With several users nobody can tell whose they were, so they
+ * stay hidden until retention removes them.
+ */
+function claimLegacySessions(): void {
+  if (ALLOWED_USERS.length !== 1) return;
+  const claimed = db
+    .prepare("UPDATE sessions SET chat_key = ? WHERE chat_key = ''")
+    .run(String(ALLOWED_USERS[0])).changes;
+  if (claimed > 0) {
+    console.log(`[session-store] Assigned ${claimed} legacy sessions to chat ${ALLOWED_USERS[0]}`);
+  }
+}
+
+// ============== Writes ==============
+
+/**
+ * Insert a session or refresh its title, working dir and last-used time.
+ */
+export function upsertSession(entry: {
+  session_id: string;
+  chat_key: string;
+  title: string;
+  working_dir: string;
+}): void {
+  const now = new Date().toISOString();
+  getDb()
+    .prepare(
+      `
+      INSERT INTO sessions
+        (session_id, chat_key, title, working_dir, created_at, last_used_at)
+      VALUES (@session_id, @chat_key, @title, @working_dir, @now, @now)
+      ON CONFLICT (session_id) DO UPDATE SET
+        chat_key = excluded.chat_key,
+        title = excluded.title,
+        working_dir = excluded.working_dir,
+        last_used_at = excluded.last_used_at
+    `
+    )
+    .run({ ...entry, now });
+}
+
+/**
+ * Add one query's token usage to a session's totals.
+ */
+export function recordSessionUsage(
+  sessionId: string,
+  usage: TokenUsage,
+  contextPercent: number | null
+): void {
+  getDb()
+    .prepare(
+      `
+      UPDATE sessions SET
+        input_tokens = input_tokens + @input,
+        output_tokens = output_tokens + @output,
+        cache_read_tokens = cache_read_tokens + @cacheRead,
+        cache_creation_tokens = cache_creation_tokens + @cacheCreation,
+        context_percent = COALESCE(@contextPercent, context_percent),
+        last_used_at = @now
+      WHERE session_id = @sessionId
+    `
+    )
+    .run({
+      sessionId,
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0,
+      cacheRead: usage.cache_read_input_tokens || 0,
+      cacheCreation: usage.cache_creation_input_tokens || 0,
+      contextPercent,
+      now: new Date().toISOString(),
+    });
+}
+
+/**
+ * Delete sessions older than SESSION_RETENTION_DAYS and, per chat, beyond
+ * the newest SESSION_RETENTION_MAX. Returns the number of deleted sessions.
+ * Runs when the database opens and then every SESSION_PRUNE_INTERVAL_MS
+ * (see startSessionPruning).
+ */
+export function pruneSessions(): number {
+  const database = getDb();
+  let deleted = 0;
+
+  if (SESSION_RETENTION_DAYS > 0) {
+    const cutoff = new Date(
+      Date.now() - SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString();
+    deleted += database
+      .prepare("DELETE FROM sessions WHERE last_used_at < ?")
+      .run(cutoff).changes;
+  }
+
+  if (SESSION_RETENTION_MAX > 0) {
+    deleted += database
+      .prepare(
+        `
+        DELETE FROM sessions WHERE session_id IN (
+          SELECT session_id FROM (
+            SELECT session_id, ROW_NUMBER() OVER (
+              PARTITION BY chat_key ORDER BY last_used_at DESC
+            ) AS rank
+            FROM sessions
+          ) WHERE rank > ?
+        )
+      `
+      )
+      .run(SESSION_RETENTION_MAX).changes;
+  }
+
+  if (deleted > 0) {
+    console.log(`[session-store] Pruned ${deleted} old sessions`);
+  }
+  return deleted;
+}
+
+/**
+ * Apply the retention settings on a schedule too, so a bot that runs for
+ * weeks doesn't only prune at startup. The timer doesn't keep the process alive.
+ */
+export function startSessionPruning(): void {
+  setInterval(() => {
+    try {
+      pruneSessions();
+    } catch (error) {
+      console.warn("[session-store] Failed to prune sessions:", error);
+    }
+  }, SESSION_PRUNE_INTERVAL_MS).unref();
+}
+
+// ============== Reads ==============
+
+/**
+ * Look up one session by ID.
+ */
+export function getStoredSession(sessionId: string): StoredSession | null {
+  return (
+    (getDb()
+      .prepare("SELECT * FROM sessions WHERE session_id = ?")
+      .get(sessionId) as StoredSession | undefined) || null
+  );
+}
+
+/**
+ * List a chat's sessions, most recently used first.
+ * `filter` matches title or working dir (case-insensitive substring).
+ * Sessions stored before per-chat keys existed only show up once they were
+ * claimed for a chat when the store opened (see claimLegacySessions).
+ */
+export function listSessions(options: {
+  chatKey: string;
+  filter?: string;
+  limit: number;
+  offset?: number;
+}): { sessions: StoredSession[]; total: number } {
+  const database = getDb();
+  const where = ["chat_key = @chatKey"];
+  const params: Record<string, unknown> = {
+    chatKey: options.chatKey,
+    limit: options.limit,
+    offset: options.offset || 0,
+  };
+
+  const filter = options.filter?.trim();
+  if (filter) {
+    where.push(
+      "(title LIKE @filter ESCAPE '\\' OR working_dir LIKE @filter ESCAPE '\\')"
+    );
+    params.filter = `%${filter.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  }
+
+  const whereSql = where.join(" AND ");
+  const total = (
+    database
+      .prepare(`SELECT COUNT(*) AS n FROM sessions WHERE ${whereSql}`)
+      .get(params) as { n: number }
+  ).n;
+  const sessions = database
+    .prepare(
+      `SELECT * FROM sessions WHERE ${whereSql}
+       ORDER BY last_used_at DESC LIMIT @limit OFFSET @offset`
+    )
+    .all(params) as StoredSession[];
+
+  return { sessions, total };
+}
+
+// ============== Pending Work ==============
+
+/**
+ * Replace the persisted queue and in-flight prompt of one session, with the
+ * CLI session they belong to (null before its first reply).
+ * Orphaned rows (left over from a previous run) are kept for replay.
+ */
+export function savePendingWork(
+  chatKey: string,
+  sessionName: string,
+  sessionId: string | null,
+  items: Array<{ kind: PendingWork["kind"]; prompt: string }>
+): void {
+  const database = getDb();
+  const now = new Date().toISOString();
+  const remove = database.prepare(
+    "DELETE FROM pending_work WHERE chat_key = ? AND session_name = ? AND orphaned = 0"
+  );
+  const insert = database.prepare(`
+    INSERT INTO pending_work (chat_key, session_name, session_id, kind, prompt, created_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  database.transaction(() => {
+    remove.run(chatKey, sessionName);
+    for (const item of items) {
+      insert.run(chatKey, sessionName, sessionId, item.kind, item.prompt, now);
+    }
+  })();
+}
+
+/**
+ * Delete orphaned work nobody resumed or discarded within PENDING_WORK_TTL_MS.
+ */
+function expireOrphanedWork(): void {
+  const cutoff = new Date(Date.now() - PENDING_WORK_TTL_MS).toISOString();
+  const result = getDb()
+    .prepare("DELETE FROM pending_work WHERE orphaned = 1 AND created_at < ?")
+    .run(cutoff);
+  if (result.changes > 0) {
+    console.log(`[session-store] Expired ${result.changes} orphaned pending prompts`);
+  }
+}
+
+/**
+ * Mark all pending work as left over from the previous run and return it.
+ * Called once at startup, before any session persists new work.
+ */
+export function orphanPendingWork(): PendingWork[] {
+  const database = getDb();
+  database.prepare("UPDATE pending_work SET orphaned = 1").run();
+  expireOrphanedWork();
+  return database
+    .prepare(
+      "SELECT * FROM pending_work ORDER BY kind = 'in_flight' DESC, id"
+    )
+    .all() as PendingWork[];
+}
+
+/**
+ * Remove and return a chat's orphaned work, in-flight prompts first.
+ */
+export function takeOrphanedWork(chatKey: string): PendingWork[] {
+  const database = getDb();
+  expireOrphanedWork();
+  return database.transaction(() => {
+    const rows = database
+      .prepare(
+        `SELECT * FROM pending_work WHERE chat_key = ? AND orphaned = 1
+         ORDER BY kind = 'in_flight' DESC, id`
+      )
+      .all(chatKey) as PendingWork[];
+    database
+      .prepare("DELETE FROM pending_work WHERE chat_key = ? AND orphaned = 1")
+      .run(chatKey);
+    return rows;
+  })();
+}
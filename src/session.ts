@@ -8,31 +8,149 @@
 
 import { spawn, execSync, type ChildProcess } from "child_process";
 import { createInterface } from "readline";
-import { readFileSync, writeFileSync, existsSync, statSync } from "fs";
+import { existsSync, writeFileSync } from "fs";
+import { resolve } from "path";
 import type { Context } from "grammy";
 
 import {
+  ACTIVITY_LOG,
   ALLOWED_PATHS,
+  ASK_USER_MODE,
+  ASK_USER_TIMEOUT_MS,
   CLAUDE_CLI_PATH,
-  SESSION_FILE,
+  CONTEXT_COMPACT_THRESHOLD,
+  DEFAULT_MODEL,
+  DEFAULT_PERMISSION_MODE,
+  MAX_QUEUE_SIZE,
+  MCP_SERVERS,
+  QUERY_HARD_TIMEOUT_MS,
+  QUERY_TIMEOUT_MS,
+  SESSION_PER_TOPIC,
   STREAMING_THROTTLE_MS,
+  TEMP_DIR,
   WORKING_DIR,
 } from "./config";
 import { formatToolStatus } from "./formatting";
-import { checkPendingAskUserRequests } from "./handlers/streaming";
+import { ActivityLog } from "./activity";
+import { getToolPolicy, toolPolicyArgs, type ToolPolicy } from "./tool-policy";
+import {
+  createCheckpoint,
+  finishCheckpoint,
+  type Checkpoint,
+} from "./checkpoints";
+import { budgetBlockMessage, budgetWarning, recordUsage } from "./usage";
+import { auditLogError } from "./utils";
+import {
+  formatThinkingLevel,
+  resolveThinkingLevel,
+  thinkingBudget,
+  type ThinkingLevel,
+  type ThinkingSetting,
+} from "./thinking";
+import {
+  cancelAskUserRequests,
+  isAwaitingAskUserText,
+  parseAskUserPrompt,
+  sendAskUserRequest,
+} from "./handlers/ask-user";
+import { BOT_TOOL_TYPES, handleBotToolRequest } from "./handlers/bot-tools";
+import {
+  cancelPermissionRequests,
+  handlePermissionRequest,
+} from "./handlers/permissions";
+import { ipcEnv, setSessionIpcHandler } from "./ipc";
+import {
+  getStoredSession,
+  listSessions,
+  recordSessionUsage,
+  savePendingWork,
+  upsertSession,
+} from "./session-store";
 import type {
-  SavedSession,
-  SessionHistory,
+  PermissionMode,
   StatusCallback,
+  StoredSession,
   TokenUsage,
 } from "./types";
 
+// permission_prompt tool of the bot MCP server (configured as "ask-user")
+const PERMISSION_PROMPT_TOOL = "mcp__ask-user__permission_prompt";
+
+let mcpConfigPath: string | null | undefined;
+
+/**
+ * Write MCP_SERVERS to a JSON file for --mcp-config (once per run).
+ * Returns null when no servers are configured.
+ */
+function mcpConfigFile(): string | null {
+  if (mcpConfigPath !== undefined) return mcpConfigPath;
+
+  mcpConfigPath = null;
+  if (Object.keys(MCP_SERVERS).length > 0) {
+    const path = resolve(TEMP_DIR, "mcp-config.json");
+    try {
+      writeFileSync(path, JSON.stringify({ mcpServers: MCP_SERVERS }, null, 2));
+      mcpConfigPath = path;
+    } catch (error) {
+      console.warn(`Failed to write MCP config: ${error}`);
+    }
+  }
+  return mcpConfigPath;
+}
+
+/**
+ * CLI args shared by chat queries and background jobs: headless stream-json
+ * output, permission mode, tool policy, extra directories, MCP servers, model
+ * and CLAUDE_SYSTEM_PROMPT.
+ */
+export function buildCliArgs(
+  permissionMode: PermissionMode,
+  model: string,
+  toolPolicy: ToolPolicy
+): string[] {
+  const args = ["-p", "--verbose", "--output-format", "stream-json"];
+
+  // Permission mode (per session, see /mode)
+  if (permissionMode === "bypass") {
+    args.push("--dangerously-skip-permissions");
+  } else {
+    args.push("--permission-mode", permissionMode);
+  }
+
+  // Tool allow/deny lists (global, or overridden by the project)
+  args.push(...toolPolicyArgs(toolPolicy));
+
+  // Additional directories
+  if (ALLOWED_PATHS.length > 0) {
+    args.push("--add-dir", ...ALLOWED_PATHS);
+  }
+
+  // MCP servers from mcp-config.ts
+  const mcpConfig = mcpConfigFile();
+  if (mcpConfig) {
+    args.push("--mcp-config", mcpConfig);
+  }
+
+  // Model (per session, see /model; defaults to CLAUDE_MODEL)
+  if (model) {
+    args.push("--model", model);
+  }
+
+  // Optional system prompt (env var)
+  const systemPrompt = process.env.CLAUDE_SYSTEM_PROMPT;
+  if (systemPrompt) {
+    args.push("--append-system-prompt", systemPrompt);
+  }
+
+  return args;
+}
+
 /**
  * Kill a process tree. On Windows, `taskkill /T` kills child processes too
  * (needed because shell:true spawns cmd.exe which spawns the actual CLI).
  * On Unix, tries graceful SIGTERM first, then SIGKILL after timeout.
  */
-function killProcessTree(pid: number): void {
+export function killProcessTree(pid: number): void {
   try {
     if (process.platform === "win32") {
       // Windows: taskkill /T /F is the only reliable method
@@ -69,13 +187,74 @@ function isPromptTooLong(text: string): boolean {
 }
 
 /**
- * Manages Claude Code sessions using the CLI subprocess.
+ * Format a timeout for messages, e.g. "3m" or "90s".
+ */
+function formatTimeout(ms: number): string {
+  return ms % 60_000 === 0 ? `${ms / 60_000}m` : `${Math.round(ms / 1000)}s`;
+}
+
+/**
+ * Asks Claude to summarize the conversation for the session that replaces it.
+ */
+const HANDOFF_PROMPT = `Your context window is nearly full. This conversation will continue in a fresh session that only sees what you write now. Write a structured handoff summary with these sections:
+
+## Goal
+## Current state (what is done, files created or changed)
+## Decisions and constraints
+## Open questions
+## Next steps
+
+Be specific: include file paths, commands, names and any values the next session needs. Reply with the summary only.`;
+
+// Summaries longer than this are truncated before seeding the new session
+const MAX_HANDOFF_LENGTH = 20_000;
+
+/**
+ * What a queued prompt came from, for /queue previews.
+ */
+export type QueuedKind = "text" | "photo" | "document" | "voice" | "audio" | "video";
+
+/**
+ * A message waiting for the session to become idle.
+ * `text` is the full prompt; `preview` is what /queue shows (defaults to `text`).
  */
-const MAX_SESSIONS = 5;
+export interface QueuedMessage {
+  ctx: Context;
+  text: string;
+  kind?: QueuedKind;
+  preview?: string;
+}
 
-const MAX_QUEUE_SIZE = 5;
+/**
+ * A queued message with its stable ID, used by /queue buttons.
+ */
+export interface QueuedItem extends QueuedMessage {
+  id: number;
+}
 
-class ClaudeSession {
+/**
+ * A point in a conversation a new session can branch from.
+ * `messageUuid` is the last assistant message of that turn (null = latest).
+ */
+export interface ForkPoint {
+  sessionId: string;
+  messageUuid: string | null;
+  title: string | null;
+  workingDir: string;
+}
+
+/**
+ * Manages Claude Code sessions using the CLI subprocess.
+ */
+export class ClaudeSession {
+  /** Session manager key (chat ID, optionally suffixed with the forum topic ID). */
+  readonly key: string;
+  /** Process-wide unique ID, used in callback data. */
+  readonly id: number;
+  /** Display name, unique within the chat. */
+  name: string;
+  /** False while another session of the same chat is the active one. */
+  isForeground = true;
   sessionId: string | null = null;
   lastActivity: Date | null = null;
   queryStarted: Date | null = null;
@@ -84,9 +263,27 @@ class ClaudeSession {
   lastError: string | null = null;
   lastErrorTime: Date | null = null;
   lastUsage: TokenUsage | null = null;
+  lastCostUsd: number | null = null;
   lastMessage: string | null = null;
   conversationTitle: string | null = null;
   contextPercent: number | null = null;
+  /** Model alias or ID passed as --model (empty = CLI default). */
+  model: string = DEFAULT_MODEL;
+  permissionMode: PermissionMode = DEFAULT_PERMISSION_MODE;
+  /** False for long autonomous tasks that opted out of query timeouts (/timeout off). */
+  timeoutsEnabled = true;
+  /** Thinking override (see /think); "auto" follows keywords in the prompt. */
+  thinking: ThinkingSetting = "auto";
+  /** Thinking level used by the last query (null = CLI default). */
+  lastThinkingLevel: ThinkingLevel | null = null;
+  /** UUID of the last assistant message seen, i.e. where the current turn ends. */
+  lastAssistantUuid: string | null = null;
+  /** "Always allow" rules from permission prompts, e.g. "Edit" or "Bash(npm)". */
+  approvedTools = new Set<string>();
+  /** Git checkpoint of the last query, if it changed files (see checkpoints.ts). */
+  lastCheckpoint: Checkpoint | null = null;
+  /** What the last query did, with ACTIVITY_LOG on (see activity.ts). */
+  activityLog: ActivityLog | null = null;
   private _workingDir: string = WORKING_DIR;
 
   private childProcess: ChildProcess | null = null;
@@ -94,7 +291,28 @@ class ClaudeSession {
   private stopRequested = false;
   private _isProcessing = false;
   private _wasInterruptedByNewMessage = false;
-  private messageQueue: Array<{ ctx: Context }> = [];
+  private messageQueue: QueuedItem[] = [];
+  private nextQueueId = 1;
+  /** Prompt of the running query, persisted so a restart can replay it. */
+  private inFlightPrompt: string | null = null;
+  /** Set until the first query of a fork creates its own CLI session. */
+  private forkSource: ForkPoint | null = null;
+  /** Handoff summary to seed the next new session with, after a compaction. */
+  private handoff: { fromSessionId: string; summary: string } | null = null;
+  private isCompacting = false;
+  private justCompacted = false;
+  /** Soft and hard timeouts of the running query, if any. */
+  private watchdog: {
+    extend: () => void;
+    pause: () => void;
+    resume: () => void;
+  } | null = null;
+
+  constructor(key: string, id: number, name: string) {
+    this.key = key;
+    this.id = id;
+    this.name = name;
+  }
 
   get currentWorkingDir(): string {
     return this._workingDir;
@@ -105,17 +323,63 @@ class ClaudeSession {
       throw new Error(`Directory does not exist: ${path}`);
     }
     this._workingDir = path;
-    console.log(`Working directory changed to: ${path}`);
+    console.log(`[${this.key}] Working directory changed to: ${path}`);
   }
 
   get isActive(): boolean {
-    return this.sessionId !== null;
+    return this.sessionId !== null || this.forkSource !== null;
+  }
+
+  /**
+   * The session this one branches from, until its first query runs.
+   */
+  get forkedFrom(): ForkPoint | null {
+    return this.forkSource;
+  }
+
+  /**
+   * Where this session could be forked right now, or null if it has no CLI session yet.
+   */
+  get forkPoint(): ForkPoint | null {
+    if (!this.sessionId) return null;
+    return {
+      sessionId: this.sessionId,
+      messageUuid: this.lastAssistantUuid,
+      title: this.conversationTitle,
+      workingDir: this._workingDir,
+    };
+  }
+
+  /**
+   * Branch this (empty) session off an earlier conversation. The CLI creates the
+   * new session on the next query via `--resume <id> --fork-session`.
+   */
+  forkFrom(point: ForkPoint, title?: string): void {
+    if (existsSync(point.workingDir)) {
+      this.setWorkingDir(point.workingDir);
+    }
+    this.sessionId = null;
+    this.forkSource = point;
+    this.conversationTitle = `${title?.trim() || point.title || "Untitled"} (fork)`;
+    console.log(
+      `[${this.key}] Forking session ${point.sessionId.slice(0, 8)}...${
+        point.messageUuid ? ` at ${point.messageUuid.slice(0, 8)}` : ""
+      }`
+    );
   }
 
   get isRunning(): boolean {
     return this.isQueryRunning || this._isProcessing;
   }
 
+  /**
+   * Whether tools that need approval are asked for in the chat. That goes
+   * through the ask-user MCP server; without it the CLI denies them outright.
+   */
+  get asksForPermission(): boolean {
+    return this.permissionMode !== "bypass" && Boolean(MCP_SERVERS["ask-user"]);
+  }
+
   /**
    * Check if the last stop was triggered by a new message interrupt (! prefix).
    * Resets the flag when called. Also clears stopRequested so new messages can proceed.
@@ -158,20 +422,23 @@ class ClaudeSession {
    * Queue a message to be processed after the current query completes.
    * Returns true if queued, false if queue is full.
    */
-  queueMessage(item: { ctx: Context }): boolean {
+  queueMessage(item: QueuedMessage): boolean {
     if (this.messageQueue.length >= MAX_QUEUE_SIZE) {
       return false;
     }
-    this.messageQueue.push(item);
+    this.messageQueue.push({ ...item, id: this.nextQueueId++ });
     console.log(`Message queued (${this.messageQueue.length} in queue)`);
+    this.persistPendingWork();
     return true;
   }
 
   /**
    * Dequeue the next message. Returns null if queue is empty.
    */
-  dequeueMessage(): { ctx: Context } | null {
-    return this.messageQueue.shift() || null;
+  dequeueMessage(): QueuedItem | null {
+    const item = this.messageQueue.shift() || null;
+    if (item) this.persistPendingWork();
+    return item;
   }
 
   /**
@@ -181,6 +448,197 @@ class ClaudeSession {
     return this.messageQueue.length;
   }
 
+  /**
+   * Snapshot of the queue, next item first.
+   */
+  get queuedMessages(): readonly QueuedItem[] {
+    return [...this.messageQueue];
+  }
+
+  /**
+   * Remove a queued item. Returns false if it's no longer queued.
+   */
+  dropQueued(id: number): boolean {
+    const index = this.messageQueue.findIndex((item) => item.id === id);
+    if (index === -1) return false;
+    this.messageQueue.splice(index, 1);
+    this.persistPendingWork();
+    return true;
+  }
+
+  /**
+   * Move a queued item to the front. Returns false if it's no longer queued.
+   */
+  moveQueuedToFront(id: number): boolean {
+    const index = this.messageQueue.findIndex((item) => item.id === id);
+    if (index === -1) return false;
+    const [item] = this.messageQueue.splice(index, 1);
+    this.messageQueue.unshift(item!);
+    this.persistPendingWork();
+    return true;
+  }
+
+  /**
+   * Merge all queued items into a single prompt, replied to from the last item's context.
+   * Returns the number of merged items (0 or 1 means nothing to merge).
+   */
+  mergeQueue(): number {
+    const count = this.messageQueue.length;
+    if (count < 2) return count;
+
+    const last = this.messageQueue[count - 1]!;
+    const merged: QueuedItem = {
+      ctx: last.ctx,
+      text: this.messageQueue.map((item) => item.text).join("\n\n"),
+      kind: "text",
+      preview: `Merged ${count} messages: ${this.messageQueue
+        .map((item) => item.preview || item.text)
+        .join(" / ")}`,
+      id: this.nextQueueId++,
+    };
+    this.messageQueue = [merged];
+    this.persistPendingWork();
+    return count;
+  }
+
+  /**
+   * Drop every queued item. Returns how many were dropped.
+   */
+  clearQueue(): number {
+    const count = this.messageQueue.length;
+    this.messageQueue = [];
+    this.persistPendingWork();
+    return count;
+  }
+
+  /**
+   * Restart the timeouts of the running query ("Keep waiting").
+   * Returns false if no watched query is running.
+   */
+  keepWaiting(): boolean {
+    if (!this.watchdog) return false;
+    this.watchdog.extend();
+    return true;
+  }
+
+  /**
+   * Hold the timeouts of the running query while a prompt waits for the user.
+   * They restart in full once `wait` settles.
+   */
+  async pauseTimeoutsWhile<T>(wait: Promise<T>): Promise<T> {
+    const watchdog = this.watchdog;
+    watchdog?.pause();
+    try {
+      return await wait;
+    } finally {
+      watchdog?.resume();
+    }
+  }
+
+  /**
+   * Arm the soft and hard timeouts for the running query. At the soft timeout a
+   * "Keep waiting / Stop" prompt is posted (needs ctx); at the hard timeout the
+   * process tree is killed and `onHardTimeout` runs. Both are held while paused.
+   * Returns a cleanup function.
+   */
+  private startWatchdog(
+    ctx: Context | undefined,
+    onHardTimeout: () => void
+  ): () => void {
+    let softTimer: ReturnType<typeof setTimeout> | null = null;
+    let hardTimer: ReturnType<typeof setTimeout> | null = null;
+    let notice: { chatId: number; messageId: number } | null = null;
+    let paused = 0;
+    let stopped = false;
+
+    const onSoft = async () => {
+      if (!ctx || notice) return;
+      const elapsed = this.queryStarted
+        ? Math.round((Date.now() - this.queryStarted.getTime()) / 1000)
+        : 0;
+      try {
+        const msg = await ctx.reply(
+          `⏱ Still running after ${formatTimeout(elapsed * 1000)}` +
+            `${this.currentTool ? ` (${this.currentTool})` : ""}.` +
+            (QUERY_HARD_TIMEOUT_MS > QUERY_TIMEOUT_MS
+              ? ` It will be stopped in ${formatTimeout(
+                  QUERY_HARD_TIMEOUT_MS - QUERY_TIMEOUT_MS
+                )} unless you keep waiting.`
+              : ""),
+          {
+            reply_markup: {
+              inline_keyboard: [
+                [
+                  { text: "⏳ Keep waiting", callback_data: `timeout:wait:${this.id}` },
+                  { text: "🛑 Stop", callback_data: `timeout:stop:${this.id}` },
+                ],
+              ],
+            },
+          }
+        );
+        notice = { chatId: msg.chat.id, messageId: msg.message_id };
+      } catch (error) {
+        console.debug("Failed to post timeout notice:", error);
+      }
+    };
+
+    const onHard = () => {
+      console.warn(
+        `[${this.key}] Query exceeded ${formatTimeout(QUERY_HARD_TIMEOUT_MS)} - killing CLI process`
+      );
+      onHardTimeout();
+      this.stopRequested = true;
+      if (this.childProcess?.pid) {
+        killProcessTree(this.childProcess.pid);
+      }
+    };
+
+    const clear = () => {
+      if (softTimer) clearTimeout(softTimer);
+      if (hardTimer) clearTimeout(hardTimer);
+    };
+
+    const arm = () => {
+      clear();
+      if (paused > 0 || stopped) return;
+      if (QUERY_TIMEOUT_MS > 0) {
+        softTimer = setTimeout(() => void onSoft(), QUERY_TIMEOUT_MS);
+      }
+      if (QUERY_HARD_TIMEOUT_MS > 0) {
+        hardTimer = setTimeout(onHard, QUERY_HARD_TIMEOUT_MS);
+      }
+    };
+
+    this.watchdog = {
+      extend: () => {
+        console.log(`[${this.key}] Timeouts extended`);
+        notice = null;
+        arm();
+      },
+      // Prompts can overlap (parallel tool calls), so pauses are counted
+      pause: () => {
+        paused++;
+        clear();
+      },
+      resume: () => {
+        paused--;
+        arm();
+      },
+    };
+    arm();
+
+    return () => {
+      stopped = true;
+      clear();
+      this.watchdog = null;
+      if (ctx && notice) {
+        ctx.api
+          .deleteMessage(notice.chatId, notice.messageId)
+          .catch(() => {});
+      }
+    };
+  }
+
   /**
    * Stop the currently running query by killing the CLI subprocess.
    * Returns: "stopped" if process was killed, "pending" if will be cancelled, false if nothing running
@@ -218,15 +676,41 @@ class ClaudeSession {
     chatId?: number,
     ctx?: Context
   ): Promise<string> {
-    // Set chat context for ask_user MCP tool
-    if (chatId) {
-      process.env.TELEGRAM_CHAT_ID = String(chatId);
+    // Refuse new queries once the daily budget is used up (BUDGET_MODE=block)
+    if (!this.isCompacting) {
+      let blocked: string | null = null;
+      try {
+        blocked = budgetBlockMessage();
+      } catch (error) {
+        console.warn(`Budget check failed: ${error}`);
+      }
+      if (blocked) {
+        await statusCallback("segment_end", blocked, 0);
+        await statusCallback("done", "");
+        return blocked;
+      }
+    }
+
+    // Hand off to a fresh session before the context overflows
+    if (
+      CONTEXT_COMPACT_THRESHOLD > 0 &&
+      this.sessionId &&
+      !this.isCompacting &&
+      this.contextPercent !== null &&
+      this.contextPercent >= CONTEXT_COMPACT_THRESHOLD
+    ) {
+      await this.compact(statusCallback, username, userId, chatId, ctx);
     }
 
     const isNewSession = !this.isActive;
 
     // Inject current date/time at session start so Claude doesn't need to call a tool for it
     let messageToSend = message;
+    if (isNewSession && this.handoff) {
+      messageToSend =
+        `[This continues session ${this.handoff.fromSessionId}, which ran out of context. ` +
+        `Handoff summary from that session:]\n\n${this.handoff.summary}\n\n---\n\n${message}`;
+    }
     if (isNewSession) {
       const now = new Date();
       const datePrefix = `[Current date/time: ${now.toLocaleDateString(
@@ -241,51 +725,49 @@ class ClaudeSession {
           timeZoneName: "short",
         }
       )}]\n\n`;
-      messageToSend = datePrefix + message;
+      messageToSend = datePrefix + messageToSend;
     }
 
     // Build CLI args — prompt goes to stdin, not on command line
-    const args: string[] = [
-      "-p",
-      "--verbose",
-      "--output-format",
-      "stream-json",
-      "--include-partial-messages",
-      "--dangerously-skip-permissions",
-    ];
+    const args = buildCliArgs(
+      this.permissionMode,
+      this.model,
+      getToolPolicy(this.currentWorkingDir)
+    );
+    args.push("--include-partial-messages");
 
-    // Additional directories
-    if (ALLOWED_PATHS.length > 0) {
-      args.push("--add-dir", ...ALLOWED_PATHS);
+    // Outside bypass mode, tools that need approval are asked for in the chat
+    if (this.asksForPermission) {
+      args.push("--permission-prompt-tool", PERMISSION_PROMPT_TOOL);
     }
 
-    // Resume existing session
+    // Resume existing session, or branch off the fork source
     if (this.sessionId) {
       args.push("--resume", this.sessionId);
-    }
-
-    // Optional model override (env var)
-    const model = process.env.CLAUDE_MODEL;
-    if (model) {
-      args.push("--model", model);
-    }
-
-    // Optional system prompt (env var)
-    const systemPrompt = process.env.CLAUDE_SYSTEM_PROMPT;
-    if (systemPrompt) {
-      args.push("--append-system-prompt", systemPrompt);
+    } else if (this.forkSource) {
+      args.push("--resume", this.forkSource.sessionId, "--fork-session");
+      if (this.forkSource.messageUuid) {
+        args.push("--resume-session-at", this.forkSource.messageUuid);
+      }
     }
 
     // ask_user MCP: instruct Claude to use button prompts for multiple-choice questions
     args.push(
       "--append-system-prompt",
-      "TELEGRAM INTERACTION: The user is reading on a phone. When you want to ask a multiple-choice question with specific predefined options (e.g. project type, tech stack, yes/no decisions, selecting from a list), use the ask_user MCP tool instead of writing the question as plain text. The user can tap a button rather than type. After calling ask_user, stop — do not write anything else. For open-ended questions that need free-form input, just ask normally in text."
+      "TELEGRAM INTERACTION: The user is reading on a phone. When you want to ask a multiple-choice question with specific predefined options (e.g. project type, tech stack, yes/no decisions, selecting from a list), use the ask_user MCP tool instead of writing the question as plain text. The user can tap a button rather than type. " +
+        (ASK_USER_MODE === "prompt"
+          ? "After calling ask_user, stop — do not write anything else. "
+          : "ask_user returns the option the user tapped; continue from there. ") +
+        "For open-ended questions that need free-form input, just ask normally in text. Before destructive or irreversible actions, ask with the confirm tool. To get a file you created (chart, archive, report) onto the user's phone, use send_file or send_photo."
     );
 
     if (isNewSession) {
       console.log("STARTING new Claude CLI session");
     } else {
-      console.log(`RESUMING session ${this.sessionId!.slice(0, 8)}...`);
+      const resumeId = this.sessionId || this.forkSource!.sessionId;
+      console.log(
+        `${this.sessionId ? "RESUMING" : "FORKING"} session ${resumeId.slice(0, 8)}...`
+      );
     }
 
     // Check if stop was requested during processing phase
@@ -297,17 +779,102 @@ class ClaudeSession {
       throw new Error("Query cancelled");
     }
 
+    // Snapshot the working tree so the turn's edits can be undone
+    let checkpoint: Checkpoint | null = null;
+    if (!this.isCompacting) {
+      this.lastCheckpoint = null;
+      checkpoint = await createCheckpoint(this._workingDir, this.key, message);
+    }
+
+    // Record the turn's tool calls and thinking for "What did you do?"
+    const activity = ACTIVITY_LOG && !this.isCompacting ? new ActivityLog() : null;
+    if (!this.isCompacting) {
+      this.activityLog = activity;
+    }
+
     // Spawn CLI process
     const env = { ...process.env };
     delete env.CLAUDECODE; // Prevent "nested session" error
+    Object.assign(env, ipcEnv(this.id)); // Lets MCP servers reach this session
+
+    // Thinking budget from keywords or the session override
+    const thinkingLevel = this.isCompacting
+      ? null
+      : resolveThinkingLevel(this.thinking, message);
+    if (thinkingLevel) {
+      env.MAX_THINKING_TOKENS = String(thinkingBudget(thinkingLevel));
+      console.log(`Thinking: ${formatThinkingLevel(thinkingLevel)}`);
+    }
+    if (!this.isCompacting) {
+      this.lastThinkingLevel = thinkingLevel;
+    }
+
+    // Bot MCP tools (ask_user, confirm, send_file, ...) call in over IPC while the query runs
+    let askUserShown = false;
+    setSessionIpcHandler(this.id, async (request) => {
+      if (!ctx) {
+        return { ok: false, error: "No chat to deliver to" };
+      }
+      if (BOT_TOOL_TYPES.includes(request.type)) {
+        return handleBotToolRequest(ctx, this, request, statusCallback);
+      }
+      if (request.type === "permission") {
+        return handlePermissionRequest(ctx, this, request);
+      }
+      if (request.type !== "ask_user" && request.type !== "confirm") {
+        return { ok: false, error: `Unsupported request: ${request.type}` };
+      }
+      const prompt = parseAskUserPrompt(request);
+      if (typeof prompt === "string") {
+        return { ok: false, error: prompt };
+      }
+
+      if (ASK_USER_MODE === "prompt") {
+        await sendAskUserRequest(ctx, this, prompt);
+        askUserShown = true;
+        return { ok: true };
+      }
+
+      // Blocking: the tool call returns the answer, Claude continues the turn.
+      // Time spent waiting for the user doesn't count towards the timeouts.
+      const answer = await this.pauseTimeoutsWhile(
+        sendAskUserRequest(ctx, this, prompt, ASK_USER_TIMEOUT_MS)
+      );
+      if (!answer) {
+        return { ok: true, answer: null, timed_out: true };
+      }
+      return {
+        ok: true,
+        answer: answer.choices.join(", "),
+        choices: answer.choices,
+        typed: answer.typed,
+        ...(prompt.kind === "confirm"
+          ? { confirmed: answer.choices[0] === prompt.options[0]!.label }
+          : {}),
+      };
+    });
 
     this.childProcess = spawn(CLAUDE_CLI_PATH, args, {
       cwd: this._workingDir,
       env,
       stdio: ["pipe", "pipe", "pipe"],
       shell: process.platform === "win32",
+      // Own process group on Unix, so killProcessTree can signal -pid
+      detached: process.platform !== "win32",
     });
 
+    // Soft/hard wall-clock timeouts
+    let timedOut = false;
+    const stopWatchdog = this.timeoutsEnabled
+      ? this.startWatchdog(ctx, () => {
+          timedOut = true;
+        })
+      : () => {};
+    if (!this.isCompacting) {
+      this.inFlightPrompt = message;
+      this.persistPendingWork();
+    }
+
     // Pipe prompt via stdin (avoids command-line escaping issues on Windows)
     this.childProcess.stdin!.write(messageToSend);
     this.childProcess.stdin!.end();
@@ -330,6 +897,7 @@ class ClaudeSession {
     let currentMsgId: string | null = null;
     let processedBlockLengths: number[] = [];
     const processedToolIds = new Set<string>();
+    const askUserToolIds = new Set<string>();
 
     // Collect stderr for error reporting
     const stderrChunks: string[] = [];
@@ -345,6 +913,14 @@ class ClaudeSession {
     });
 
     try {
+      // Show the thinking level in the status message
+      if (thinkingLevel && thinkingLevel !== "off") {
+        await statusCallback(
+          "tool",
+          `🧠 Thinking: ${formatThinkingLevel(thinkingLevel)}`
+        );
+      }
+
       const rl = createInterface({ input: this.childProcess.stdout! });
 
       for await (const line of rl) {
@@ -365,10 +941,17 @@ class ClaudeSession {
         // Capture session_id from the first event that has one
         if (event.session_id && !this.sessionId) {
           this.sessionId = event.session_id;
+          this.forkSource = null;
+          this.handoff = null;
           console.log(`GOT session_id: ${this.sessionId!.slice(0, 8)}...`);
           this.saveSession();
         }
 
+        // Remember where this turn ends, for forking
+        if (event.type === "assistant" && event.uuid) {
+          this.lastAssistantUuid = event.uuid;
+        }
+
         // ── Assistant messages (text, tools, thinking) ──
         if (event.type === "assistant" && event.message?.content) {
           const msgId = event.message.id;
@@ -390,6 +973,7 @@ class ClaudeSession {
               const thinking = block.thinking as string;
               if (thinking.length > prevLen) {
                 processedBlockLengths[i] = thinking.length;
+                activity?.setThinking(`${msgId}:${i}`, thinking);
                 console.log(`THINKING: ${thinking.slice(0, 100)}...`);
                 await statusCallback("thinking", thinking);
               }
@@ -446,40 +1030,49 @@ class ClaudeSession {
                 const toolDisplay = formatToolStatus(block.name, toolInput);
                 this.currentTool = toolDisplay;
                 this.lastTool = toolDisplay;
+                activity?.toolStarted(block.id, toolDisplay);
                 console.log(`Tool: ${toolDisplay}`);
 
-                // Don't show tool status for ask_user - the buttons are self-explanatory
+                // Don't show tool status for the bot's own tools - buttons, files
+                // and notifications are self-explanatory
                 if (!block.name.startsWith("mcp__ask-user")) {
                   await statusCallback("tool", toolDisplay);
-                }
-
-                // Check for pending ask_user requests after ask-user MCP tool
-                if (block.name.startsWith("mcp__ask-user") && ctx && chatId) {
-                  await new Promise((r) => setTimeout(r, 200));
-                  for (let attempt = 0; attempt < 3; attempt++) {
-                    const buttonsSent = await checkPendingAskUserRequests(
-                      ctx,
-                      chatId
-                    );
-                    if (buttonsSent) {
-                      askUserTriggered = true;
-                      break;
-                    }
-                    if (attempt < 2) {
-                      await new Promise((r) => setTimeout(r, 100));
-                    }
-                  }
+                } else if (/__(ask_user|confirm)$/.test(block.name)) {
+                  askUserToolIds.add(block.id);
                 }
               }
             }
           }
+        }
 
-          // Break out of event loop if ask_user was triggered
-          if (askUserTriggered) {
-            break;
+        // ── Tool results, for the activity log ──
+        if (
+          activity &&
+          event.type === "user" &&
+          Array.isArray(event.message?.content)
+        ) {
+          for (const block of event.message.content as any[]) {
+            if (block.type === "tool_result" && block.tool_use_id) {
+              activity.toolFinished(block.tool_use_id, block.content, block.is_error === true);
+            }
           }
         }
 
+        // ── ask_user result — buttons are shown, the user's tap is the next message ──
+        if (
+          event.type === "user" &&
+          askUserShown &&
+          Array.isArray(event.message?.content) &&
+          (event.message.content as any[]).some(
+            (block) =>
+              block.type === "tool_result" &&
+              askUserToolIds.has(block.tool_use_id)
+          )
+        ) {
+          askUserTriggered = true;
+          break;
+        }
+
         // ── Result event — query complete ──
         if (event.type === "result") {
           console.log("Response complete");
@@ -503,6 +1096,9 @@ class ClaudeSession {
             );
           }
 
+          this.lastCostUsd =
+            typeof event.total_cost_usd === "number" ? event.total_cost_usd : null;
+
           // Calculate context window percentage from modelUsage
           if (event.modelUsage) {
             const models = Object.values(event.modelUsage) as any[];
@@ -523,6 +1119,38 @@ class ClaudeSession {
             }
           }
 
+          // Accumulate usage in the session store
+          if (this.sessionId && event.usage) {
+            try {
+              recordSessionUsage(
+                this.sessionId,
+                this.lastUsage!,
+                this.contextPercent
+              );
+            } catch (error) {
+              console.warn(`Failed to record session usage: ${error}`);
+            }
+          }
+
+          // Per-query accounting for /usage and the daily budget
+          try {
+            recordUsage({
+              chatKey: this.key,
+              sessionId: this.sessionId,
+              workingDir: this._workingDir,
+              model: Object.keys(event.modelUsage || {})[0] || this.model,
+              usage: this.lastUsage || {
+                input_tokens: 0,
+                output_tokens: 0,
+              },
+              costUsd: this.lastCostUsd || 0,
+              numTurns: event.num_turns || 0,
+              durationMs: event.duration_ms || 0,
+            });
+          } catch (error) {
+            console.warn(`Failed to record usage: ${error}`);
+          }
+
           // Check for prompt-too-long in result text
           if (event.result && isPromptTooLong(event.result)) {
             promptTooLong = true;
@@ -568,6 +1196,9 @@ class ClaudeSession {
 
       if (isCleanupError && (this.stopRequested || askUserTriggered)) {
         console.warn(`Suppressed post-stop error: ${error}`);
+      } else if (promptTooLong) {
+        // Handled below by compacting and re-sending
+        console.warn(`Prompt too long: ${error}`);
       } else {
         console.error(`Error in CLI query: ${error}`);
         this.lastError = String(error).slice(0, 100);
@@ -579,19 +1210,61 @@ class ClaudeSession {
       this.childProcess = null;
       this.queryStarted = null;
       this.currentTool = null;
+      this.inFlightPrompt = null;
+      this.persistPendingWork();
+      stopWatchdog();
+      setSessionIpcHandler(this.id, null);
+      cancelAskUserRequests(this.id);
+      cancelPermissionRequests(this.id);
+      if (checkpoint) {
+        this.lastCheckpoint = await finishCheckpoint(checkpoint);
+      }
+      activity?.finish();
+    }
+
+    if (timedOut) {
+      this.stopRequested = false;
+      const limit = formatTimeout(QUERY_HARD_TIMEOUT_MS);
+      this.lastError = `Timed out after ${limit}`;
+      this.lastErrorTime = new Date();
+      await auditLogError(
+        userId,
+        username,
+        `Query timed out after ${limit}`,
+        message.slice(0, 200)
+      );
+      throw new Error(`Query timed out after ${limit}`);
     }
 
     this.lastActivity = new Date();
     this.lastError = null;
     this.lastErrorTime = null;
 
-    // Auto-clear session on prompt-too-long
+    // Prompt too long: compact into a fresh session and re-send once
     if (promptTooLong) {
-      console.log("Prompt too long detected - auto-clearing session");
-      await this.kill();
+      if (!this.isCompacting && !this.justCompacted && this.sessionId) {
+        console.log("Prompt too long detected - compacting session");
+        await this.compact(statusCallback, username, userId, chatId, ctx);
+        return this.sendMessageStreaming(
+          message,
+          username,
+          userId,
+          statusCallback,
+          chatId,
+          ctx
+        );
+      }
+
+      // Even a fresh session can't take this prompt (or the summary itself overflowed)
+      console.log("Prompt too long after compaction - clearing session");
+      this.justCompacted = false;
+      if (!this.isCompacting) {
+        await this.kill();
+      }
       await statusCallback("done", "");
-      return "⚠️ Context limit reached — session auto-cleared. Send a new message to start fresh.";
+      return "⚠️ Context limit reached even in a fresh session — the message itself is too long. Session cleared; try a shorter message.";
     }
+    this.justCompacted = false;
 
     // If ask_user was triggered, return early - user will respond via button
     if (askUserTriggered) {
@@ -606,6 +1279,20 @@ class ClaudeSession {
         currentSegmentText,
         currentSegmentId
       );
+      currentSegmentId++;
+    }
+
+    // Tell the user once a day when spend passes the budget
+    if (!this.isCompacting) {
+      let warning: string | null = null;
+      try {
+        warning = budgetWarning();
+      } catch (error) {
+        console.warn(`Budget check failed: ${error}`);
+      }
+      if (warning) {
+        await statusCallback("segment_end", warning, currentSegmentId);
+      }
     }
 
     await statusCallback("done", "");
@@ -614,99 +1301,153 @@ class ClaudeSession {
     return resultText || responseParts.join("") || "No response from Claude.";
   }
 
+  /**
+   * Replace the current CLI session with a fresh one seeded with a handoff
+   * summary written by Claude. The old session stays in the store for /resume.
+   * If the summary can't be produced, the new session starts with a minimal note.
+   */
+  private async compact(
+    statusCallback: StatusCallback,
+    username: string,
+    userId: number,
+    chatId?: number,
+    ctx?: Context
+  ): Promise<void> {
+    const oldSessionId = this.sessionId!;
+    const percent = this.contextPercent;
+    await statusCallback(
+      "tool",
+      `🗜 Context ${percent !== null ? `${percent}% ` : ""}full — compacting into a fresh session...`
+    );
+
+    let summary: string;
+    this.isCompacting = true;
+    try {
+      const response = await this.sendMessageStreaming(
+        HANDOFF_PROMPT,
+        username,
+        userId,
+        async () => {},
+        chatId,
+        ctx
+      );
+      if (response.startsWith("⚠️") || response === "No response from Claude.") {
+        throw new Error(response);
+      }
+      summary = response.slice(0, MAX_HANDOFF_LENGTH);
+    } catch (error) {
+      console.warn(`Handoff summary failed: ${error}`);
+      summary =
+        `(No summary available.) Title: ${this.conversationTitle || "untitled"}. ` +
+        `Working directory: ${this._workingDir}. Last user message: ${this.lastMessage || "unknown"}`;
+    } finally {
+      this.isCompacting = false;
+    }
+
+    this.sessionId = null;
+    this.forkSource = null;
+    this.lastAssistantUuid = null;
+    this.contextPercent = null;
+    this.handoff = { fromSessionId: oldSessionId, summary };
+    this.justCompacted = true;
+
+    console.log(`Compacted session ${oldSessionId.slice(0, 8)}...`);
+    await statusCallback(
+      "tool",
+      `🗜 Compacted — continuing in a fresh session (previous: ${oldSessionId.slice(0, 8)}..., /resume to reopen)`
+    );
+  }
+
   /**
    * Kill the current session (clear session_id) and drain the queue.
    */
   async kill(): Promise<void> {
     this.sessionId = null;
+    this.approvedTools.clear();
+    this.forkSource = null;
+    this.handoff = null;
+    this.lastAssistantUuid = null;
     this.lastActivity = null;
     this.conversationTitle = null;
     this.messageQueue = [];
+    this.persistPendingWork();
     console.log("Session cleared");
   }
 
   /**
-   * Save session to disk for resume after restart.
-   * Saves to multi-session history format.
+   * Write the queue and in-flight prompt to the session store.
+   * Failures are logged, never thrown — persistence must not block a query.
+   */
+  private persistPendingWork(): void {
+    const items: Array<{ kind: "queued" | "in_flight"; prompt: string }> = [];
+    if (this.inFlightPrompt) {
+      items.push({ kind: "in_flight", prompt: this.inFlightPrompt });
+    }
+    for (const item of this.messageQueue) {
+      items.push({ kind: "queued", prompt: item.text });
+    }
+
+    try {
+      savePendingWork(this.key, this.name, this.sessionId, items);
+    } catch (error) {
+      console.warn(`[${this.key}] Failed to persist pending work:`, error);
+    }
+  }
+
+  /**
+   * Save session to the session store for resume after restart.
    */
   saveSession(): void {
     if (!this.sessionId) return;
 
     try {
-      // Load existing session history
-      const history = this.loadSessionHistory();
-
-      // Create new session entry
-      const newSession: SavedSession = {
+      upsertSession({
         session_id: this.sessionId,
-        saved_at: new Date().toISOString(),
-        working_dir: this._workingDir,
+        chat_key: this.key,
         title: this.conversationTitle || "Untitled session",
-      };
-
-      // Remove any existing entry with same session_id (update in place)
-      const existingIndex = history.sessions.findIndex(
-        (s) => s.session_id === this.sessionId
-      );
-      if (existingIndex !== -1) {
-        history.sessions[existingIndex] = newSession;
-      } else {
-        // Add new session at the beginning
-        history.sessions.unshift(newSession);
-      }
-
-      // Keep only the last MAX_SESSIONS
-      history.sessions = history.sessions.slice(0, MAX_SESSIONS);
-
-      // Save
-      writeFileSync(SESSION_FILE, JSON.stringify(history, null, 2));
-      console.log(`Session saved to ${SESSION_FILE}`);
+        working_dir: this._workingDir,
+      });
+      console.log(`Session ${this.sessionId.slice(0, 8)}... saved`);
     } catch (error) {
       console.warn(`Failed to save session: ${error}`);
     }
   }
 
   /**
-   * Load session history from disk.
+   * Get a page of this chat's saved sessions for display, most recent first.
+   * `filter` matches title or working directory.
    */
-  private loadSessionHistory(): SessionHistory {
+  getSessionList(
+    options: { filter?: string; limit?: number; offset?: number } = {}
+  ): { sessions: StoredSession[]; total: number } {
     try {
-      if (!existsSync(SESSION_FILE)) {
-        return { sessions: [] };
-      }
-      const stat = statSync(SESSION_FILE);
-      if (!stat.size) {
-        return { sessions: [] };
-      }
-
-      const text = readFileSync(SESSION_FILE, "utf-8");
-      return JSON.parse(text) as SessionHistory;
-    } catch {
-      return { sessions: [] };
+      return listSessions({
+        chatKey: this.key,
+        filter: options.filter,
+        limit: options.limit ?? 10,
+        offset: options.offset,
+      });
+    } catch (error) {
+      console.warn(`Failed to list sessions: ${error}`);
+      return { sessions: [], total: 0 };
     }
   }
 
-  /**
-   * Get list of saved sessions for display.
-   */
-  getSessionList(): SavedSession[] {
-    const history = this.loadSessionHistory();
-    // Filter to only sessions for current working directory
-    return history.sessions.filter(
-      (s) => !s.working_dir || s.working_dir === this._workingDir
-    );
-  }
-
   /**
    * Resume a specific session by ID.
+   * Switches to the session's working directory if it differs.
    */
   resumeSession(sessionId: string): [success: boolean, message: string] {
-    const history = this.loadSessionHistory();
-    const sessionData = history.sessions.find(
-      (s) => s.session_id === sessionId
-    );
+    let sessionData: StoredSession | null;
+    try {
+      sessionData = getStoredSession(sessionId);
+    } catch (error) {
+      console.warn(`Failed to load session: ${error}`);
+      sessionData = null;
+    }
 
-    if (!sessionData) {
+    // Only the chat that saved a session may resume it
+    if (!sessionData || sessionData.chat_key !== this.key) {
       return [false, "Session not found"];
     }
 
@@ -714,15 +1455,22 @@ class ClaudeSession {
       sessionData.working_dir &&
       sessionData.working_dir !== this._workingDir
     ) {
-      return [
-        false,
-        `Session is for a different directory: ${sessionData.working_dir}`,
-      ];
+      if (!existsSync(sessionData.working_dir)) {
+        return [
+          false,
+          `Session directory no longer exists: ${sessionData.working_dir}`,
+        ];
+      }
+      this.setWorkingDir(sessionData.working_dir);
     }
 
     this.sessionId = sessionData.session_id;
+    this.forkSource = null;
+    this.lastAssistantUuid = null;
     this.conversationTitle = sessionData.title;
+    this.contextPercent = sessionData.context_percent;
     this.lastActivity = new Date();
+    this.saveSession();
 
     console.log(
       `Resumed session ${sessionData.session_id.slice(0, 8)}... - "${sessionData.title}"`
@@ -735,7 +1483,7 @@ class ClaudeSession {
    * Resume the last persisted session (legacy method, now resumes most recent).
    */
   resumeLast(): [success: boolean, message: string] {
-    const sessions = this.getSessionList();
+    const { sessions } = this.getSessionList({ limit: 1 });
     if (sessions.length === 0) {
       return [false, "No saved sessions"];
     }
@@ -744,5 +1492,209 @@ class ClaudeSession {
   }
 }
 
-// Global session instance
-export const session = new ClaudeSession();
+// ============== Session Manager ==============
+
+/**
+ * Derive the session key for an update: the chat ID, plus the forum topic ID
+ * when SESSION_PER_TOPIC is enabled and the message belongs to a topic.
+ */
+export function getSessionKey(ctx: Context): string {
+  const chatId = ctx.chat?.id;
+  if (chatId === undefined) return "default";
+
+  const msg = ctx.msg;
+  if (SESSION_PER_TOPIC && msg?.is_topic_message && msg.message_thread_id) {
+    return `${chatId}:${msg.message_thread_id}`;
+  }
+  return String(chatId);
+}
+
+/**
+ * Sessions of one chat: several named sessions can run in parallel,
+ * incoming messages go to the active one.
+ */
+interface ChatSessions {
+  sessions: ClaudeSession[];
+  active: ClaudeSession;
+}
+
+const DEFAULT_SESSION_NAME = "main";
+
+/**
+ * Keeps the named ClaudeSessions of every chat (or forum topic), created on first use.
+ */
+class SessionManager {
+  private chats = new Map<string, ChatSessions>();
+  private nextId = 1;
+
+  private getChat(key: string): ChatSessions {
+    let chat = this.chats.get(key);
+    if (!chat) {
+      const session = new ClaudeSession(key, this.nextId++, DEFAULT_SESSION_NAME);
+      chat = { sessions: [session], active: session };
+      this.chats.set(key, chat);
+      console.log(`Created session for chat ${key}`);
+    }
+    return chat;
+  }
+
+  /**
+   * Get the active session for a key, creating it if needed.
+   */
+  get(key: string): ClaudeSession {
+    return this.getChat(key).active;
+  }
+
+  /**
+   * All sessions of a chat, in creation order.
+   */
+  list(key: string): ClaudeSession[] {
+    return [...this.getChat(key).sessions];
+  }
+
+  /**
+   * Find a session by its process-wide ID.
+   */
+  byId(id: number): ClaudeSession | null {
+    for (const chat of this.chats.values()) {
+      const session = chat.sessions.find((s) => s.id === id);
+      if (session) return session;
+    }
+    return null;
+  }
+
+  /**
+   * Create a new named session in a chat and make it the active one.
+   * It starts with the working directory, model, permission mode and thinking
+   * setting of the previously active session.
+   */
+  create(key: string, name?: string): ClaudeSession {
+    const chat = this.getChat(key);
+    const sessionName = this.uniqueName(
+      chat,
+      name?.trim() || `session ${chat.sessions.length + 1}`
+    );
+    const session = new ClaudeSession(key, this.nextId++, sessionName);
+    session.setWorkingDir(chat.active.currentWorkingDir);
+    session.model = chat.active.model;
+    session.permissionMode = chat.active.permissionMode;
+    session.thinking = chat.active.thinking;
+    chat.sessions.push(session);
+    this.activate(chat, session);
+    console.log(`[${key}] Created session "${sessionName}"`);
+    return session;
+  }
+
+  /**
+   * Create a new session branched off `point` and make it the active one.
+   */
+  fork(key: string, point: ForkPoint, title?: string): ClaudeSession {
+    const source = this.getChat(key).sessions.find(
+      (s) => s.sessionId === point.sessionId
+    );
+    const session = this.create(key, `${source?.name || "session"} fork`);
+    session.forkFrom(point, title);
+    return session;
+  }
+
+  /**
+   * Make a session the active one of its chat. Returns false if unknown.
+   */
+  switchTo(key: string, id: number): boolean {
+    const chat = this.getChat(key);
+    const session = chat.sessions.find((s) => s.id === id);
+    if (!session) return false;
+    this.activate(chat, session);
+    console.log(`[${key}] Switched to session "${session.name}"`);
+    return true;
+  }
+
+  /**
+   * Close a session, stopping any running query. The last session of a chat
+   * can't be closed. Returns false if the session is unknown or the last one.
+   */
+  async close(key: string, id: number): Promise<boolean> {
+    const chat = this.getChat(key);
+    const session = chat.sessions.find((s) => s.id === id);
+    if (!session || chat.sessions.length === 1) return false;
+
+    if (session.isRunning) {
+      await session.stop();
+    }
+    await session.kill();
+
+    chat.sessions = chat.sessions.filter((s) => s !== session);
+    if (chat.active === session) {
+      this.activate(chat, chat.sessions[chat.sessions.length - 1]!);
+    }
+    console.log(`[${key}] Closed session "${session.name}"`);
+    return true;
+  }
+
+  /**
+   * All sessions of all chats.
+   */
+  all(): ClaudeSession[] {
+    return [...this.chats.values()].flatMap((c) => c.sessions);
+  }
+
+  private activate(chat: ChatSessions, session: ClaudeSession): void {
+    chat.active = session;
+    for (const s of chat.sessions) {
+      s.isForeground = s === session;
+    }
+  }
+
+  private uniqueName(chat: ChatSessions, name: string): string {
+    const taken = new Set(chat.sessions.map((s) => s.name));
+    let candidate = name;
+    for (let n = 2; taken.has(candidate); n++) {
+      candidate = `${name} ${n}`;
+    }
+    return candidate;
+  }
+}
+
+export const sessionManager = new SessionManager();
+
+/**
+ * Resolve the session that an incoming update belongs to.
+ */
+export function getSession(ctx: Context): ClaudeSession {
+  return sessionManager.get(getSessionKey(ctx));
+}
+
+/**
+ * Sequentialize key for the runner: messages to the same session are handled
+ * one after another, everything else runs immediately.
+ */
+export function sequentializeKey(ctx: Context): string | undefined {
+  // Commands are not sequentialized - they work immediately
+  if (ctx.message?.text?.startsWith("/")) {
+    return undefined;
+  }
+  // Messages with ! prefix bypass queue (interrupt)
+  if (ctx.message?.text?.startsWith("!")) {
+    return undefined;
+  }
+  // Callback queries (button clicks) are not sequentialized
+  if (ctx.callbackQuery) {
+    return undefined;
+  }
+  if (!ctx.chat) {
+    return undefined;
+  }
+  // Typed answers to a waiting ask_user call go straight through
+  if (ctx.message?.text && isAwaitingAskUserText(getSessionKey(ctx))) {
+    return undefined;
+  }
+  // Messages for a busy session go straight to its queue; holding them here
+  // would keep them out of /queue and pending work until the query ends
+  const session = getSession(ctx);
+  if (session.isRunning) {
+    return undefined;
+  }
+  // Other messages are sequentialized per active session, so parallel
+  // sessions of the same chat don't wait on each other
+  return `${getSessionKey(ctx)}:${session.id}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Extended thinking budgets for Claude Telegram Bot.
+ *
+ * Maps the THINKING_KEYWORDS / THINKING_DEEP_KEYWORDS found in a prompt (or a
+ * per-session /think override) to a thinking token budget, which is passed to
+ * the CLI as MAX_THINKING_TOKENS.
+ */
+
+import {
+  THINKING_DEEP_KEYWORDS,
+  THINKING_DEEP_TOKENS,
+  THINKING_KEYWORDS,
+  THINKING_NORMAL_TOKENS,
+} from "./config";
+
+export type ThinkingLevel = "off" | "normal" | "deep";
+
+/** Per-session setting: a fixed level, or "auto" to follow prompt keywords. */
+export type ThinkingSetting = ThinkingLevel | "auto";
+
+export const THINKING_SETTINGS: ThinkingSetting[] = [
+  "auto",
+  "off",
+  "normal",
+  "deep",
+];
+
+/**
+ * Check whether a keyword occurs in the text as whole word(s).
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  if (!keyword) return false;
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "iu").test(
+    text
+  );
+}
+
+/**
+ * Detect the thinking level requested by keywords in a prompt.
+ * Deep keywords win over normal ones. Returns null if none are present.
+ */
+export function detectThinkingLevel(text: string): ThinkingLevel | null {
+  if (THINKING_DEEP_KEYWORDS.some((k) => containsKeyword(text, k))) {
+    return "deep";
+  }
+  if (THINKING_KEYWORDS.some((k) => containsKeyword(text, k))) {
+    return "normal";
+  }
+  return null;
+}
+
+/**
+ * Resolve the level for one query. Null means "leave it to the CLI default".
+ */
+export function resolveThinkingLevel(
+  setting: ThinkingSetting,
+  text: string
+): ThinkingLevel | null {
+  return setting === "auto" ? detectThinkingLevel(text) : setting;
+}
+
+/**
+ * Token budget for a level (0 disables thinking).
+ */
+export function thinkingBudget(level: ThinkingLevel): number {
+  switch (level) {
+    case "off":
+      return 0;
+    case "normal":
+      return THINKING_NORMAL_TOKENS;
+    case "deep":
+      return THINKING_DEEP_TOKENS;
+  }
+}
+
+/**
+ * Short label for status messages, e.g. "deep (50k tokens)".
+ */
+export function formatThinkingLevel(level: ThinkingLevel): string {
+  if (level === "off") return "off";
+  const budget = thinkingBudget(level);
+  const tokens =
+    budget >= 1000 ? `${Math.round(budget / 1000)}k` : String(budget);
+  return `${level} (${tokens} tokens)`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Tool policy for Claude Telegram Bot.
+ *
+ * Declares which tools Claude may use without asking (allow), may never use
+ * (deny) and must always ask for in the chat (ask). Rules use the CLI's
+ * permission rule syntax: a tool name ("WebFetch"), an MCP server or tool
+ * ("mcp__github", "mcp__github__create_issue") or a Bash command prefix
+ * ("Bash(git push:*)").
+ *
+ * The global policy comes from CLAUDE_ALLOWED_TOOLS / CLAUDE_DISALLOWED_TOOLS /
+ * CLAUDE_ASK_TOOLS. A project registry entry can override any of the lists in
+ * its optional Tools column, e.g. "allow: Bash(npm:*), Edit; deny: WebFetch".
+ */
+
+import { ALLOWED_TOOLS, ASK_TOOLS, DISALLOWED_TOOLS } from "./config";
+import { findProjectByDir } from "./registry";
+
+export interface ToolPolicy {
+  allow: string[];
+  deny: string[];
+  ask: string[];
+  project: string | null; // Registry entry that overrides the global lists
+}
+
+const POLICY_LISTS = ["allow", "deny", "ask"] as const;
+
+/**
+ * Parse a registry Tools cell ("allow: a, b; deny: c") into the lists it sets.
+ * Lists that aren't mentioned are left out (the global list applies).
+ */
+export function parsePolicyOverride(
+  text: string
+): Partial<Record<(typeof POLICY_LISTS)[number], string[]>> {
+  const override: Partial<Record<(typeof POLICY_LISTS)[number], string[]>> = {};
+
+  for (const part of text.split(";")) {
+    const match = part.match(/^\s*(allow|deny|ask)\s*:(.*)$/i);
+    if (!match) continue;
+    const list = match[1]!.toLowerCase() as (typeof POLICY_LISTS)[number];
+    override[list] = match[2]!
+      .split(",")
+      .map((r) => r.trim())
+      .filter(Boolean);
+  }
+  return override;
+}
+
+/**
+ * Effective policy for a working directory: the global lists, with the ones
+ * set by the matching registry entry replaced.
+ */
+export function getToolPolicy(workingDir: string): ToolPolicy {
+  const policy: ToolPolicy = {
+    allow: ALLOWED_TOOLS,
+    deny: DISALLOWED_TOOLS,
+    ask: ASK_TOOLS,
+    project: null,
+  };
+
+  const project = findProjectByDir(workingDir);
+  if (project?.tools) {
+    const override = parsePolicyOverride(project.tools);
+    if (Object.keys(override).length > 0) {
+      Object.assign(policy, override);
+      policy.project = project.name;
+    }
+  }
+
+  // Rules that must be asked for are never pre-approved
+  policy.allow = policy.allow.filter((r) => !policy.ask.includes(r));
+  return policy;
+}
+
+/**
+ * CLI args for a policy: --allowedTools / --disallowedTools.
+ * "ask" rules have no flag; they're enforced by the permission prompt. Allow
+ * rules that cover an ask rule ("Bash" next to "Bash(git push:*)") are left
+ * out too, or the CLI would never ask: the permission prompt applies them.
+ */
+export function toolPolicyArgs(policy: ToolPolicy): string[] {
+  const args: string[] = [];
+  const allow = policy.allow.filter((r) => !policy.ask.some((ask) => rulesOverlap(r, ask)));
+  if (allow.length > 0) {
+    args.push("--allowedTools", ...allow);
+  }
+  if (policy.deny.length > 0) {
+    args.push("--disallowedTools", ...policy.deny);
+  }
+  return args;
+}
+
+/**
+ * Check whether a tool call falls under a rule. Bash rules match the command
+ * exactly, or by prefix when they end in ":*"; MCP server rules match all of
+ * the server's tools.
+ */
+export function matchesToolRule(
+  rule: string,
+  toolName: string,
+  input: Record<string, unknown>
+): boolean {
+  const match = rule.match(/^([^(]+)(?:\((.*)\))?$/);
+  if (!match) return false;
+  const [, name, spec] = match;
+
+  if (spec === undefined) {
+    return (
+      toolName === name ||
+      (name!.startsWith("mcp__") && toolName.startsWith(`${name}__`))
+    );
+  }
+  if (toolName !== name || toolName !== "Bash") return false;
+
+  const command = String(input.command || "").trim();
+  if (!spec.endsWith(":*")) return command === spec;
+  const prefix = spec.slice(0, -2);
+  return command === prefix || command.startsWith(`${prefix} `);
+}
+
+/**
+ * Tool name and input a rule stands for, to test it against other rules.
+ */
+function ruleExample(rule: string): [toolName: string, input: Record<string, unknown>] {
+  const match = rule.match(/^([^(]+)(?:\((.*)\))?$/);
+  const spec = match?.[2];
+  return [match?.[1] || rule, spec === undefined ? {} : { command: spec.replace(/:\*$/, "") }];
+}
+
+/**
+ * Check whether some tool call falls under both rules, e.g. "Bash" and
+ * "Bash(git push:*)", or "mcp__github" and "mcp__github__create_issue".
+ */
+export function rulesOverlap(a: string, b: string): boolean {
+  return matchesToolRule(a, ...ruleExample(b)) || matchesToolRule(b, ...ruleExample(a));
+}
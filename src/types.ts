@@ -18,18 +18,49 @@ export interface RateLimitBucket {
   lastUpdate: number;
 }
 
-// Session persistence
+// Legacy JSON session history (imported into the session store on first run)
 export interface SavedSession {
   session_id: string;
   saved_at: string;
   working_dir: string;
   title: string; // First message truncated (max ~50 chars)
+  chat_key?: string; // Session manager key (missing in pre-multi-chat history)
 }
 
 export interface SessionHistory {
   sessions: SavedSession[];
 }
 
+// Session store row (see session-store.ts)
+export interface StoredSession {
+  session_id: string;
+  chat_key: string;
+  title: string;
+  working_dir: string;
+  created_at: string;
+  last_used_at: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  context_percent: number | null;
+}
+
+// Queued or in-flight prompt persisted across restarts (see session-store.ts)
+export interface PendingWork {
+  id: number;
+  chat_key: string;
+  session_name: string;
+  session_id: string | null; // CLI session the prompts belong to
+  kind: "queued" | "in_flight";
+  prompt: string;
+  created_at: string;
+  orphaned: number;
+}
+
+// CLI permission mode; "bypass" maps to --dangerously-skip-permissions
+export type PermissionMode = "plan" | "acceptEdits" | "default" | "bypass";
+
 // Token usage from Claude
 export interface TokenUsage {
   input_tokens: number;
@@ -53,6 +84,25 @@ export interface McpHttpConfig {
   headers?: Record<string, string>;
 }
 
+// Shell command analysis (security.ts analyzeCommand)
+export type CommandKind = "read" | "write" | "network" | "destructive";
+
+export interface CommandFinding {
+  command: string; // One simple command, as parsed (quotes removed, vars expanded)
+  program?: string; // Program it runs, after wrappers ("sudo rm" when elevated)
+  kind: CommandKind;
+  paths: string[]; // Resolved targets: deleted paths, redirect targets, affected dirs
+  blocked?: string; // Reason the command must not run
+  note?: string;
+}
+
+export interface CommandAnalysis {
+  safe: boolean;
+  reason: string; // First blocking reason, "" if safe
+  kind: CommandKind; // Most dangerous kind among the findings
+  findings: CommandFinding[];
+}
+
 // Audit log event types
 export type AuditEventType =
   | "message"
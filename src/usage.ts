@@ -0,0 +1,360 @@
+/**
+ * Usage accounting for Claude Telegram Bot.
+ *
+ * Records one row per CLI query (tokens, cache reads/writes, cost, turns and
+ * wall time) in the session store database, and builds the /usage reports.
+ * Also enforces the optional daily budget (DAILY_BUDGET_USD).
+ */
+
+import { BUDGET_MODE, DAILY_BUDGET_USD } from "./config";
+import { escapeHtml } from "./formatting";
+import { getDb } from "./session-store";
+import type { TokenUsage } from "./types";
+
+// ============== Types ==============
+
+export interface UsageEvent {
+  chatKey: string;
+  sessionId: string | null;
+  workingDir: string;
+  model: string;
+  usage: TokenUsage;
+  costUsd: number;
+  numTurns: number;
+  durationMs: number;
+}
+
+interface UsageTotals {
+  queries: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+  num_turns: number;
+  duration_ms: number;
+}
+
+export type UsageReport = "summary" | "today" | "week" | "project";
+
+// ============== Schema ==============
+
+let schemaReady = false;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function db(): any {
+  const database = getDb();
+  if (!schemaReady) {
+    database.exec(`
+      CREATE TABLE IF NOT EXISTS usage_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        at TEXT NOT NULL,
+        day TEXT NOT NULL,
+        chat_key TEXT NOT NULL,
+        session_id TEXT,
+        working_dir TEXT NOT NULL DEFAULT '',
+        model TEXT NOT NULL DEFAULT '',
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+        cache_creation_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        num_turns INTEGER NOT NULL DEFAULT 0,
+        duration_ms INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS usage_events_day ON usage_events (day);
+    `);
+    schemaReady = true;
+  }
+  return database;
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD (budgets and reports follow the bot's timezone).
+ */
+function localDay(date: Date = new Date()): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function daysAgo(n: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() - n);
+  return localDay(date);
+}
+
+// ============== Recording ==============
+
+/**
+ * Store the usage of one completed query.
+ */
+export function recordUsage(event: UsageEvent): void {
+  const now = new Date();
+  db()
+    .prepare(
+      `
+      INSERT INTO usage_events (
+        at, day, chat_key, session_id, working_dir, model,
+        input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens,
+        cost_usd, num_turns, duration_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    )
+    .run(
+      now.toISOString(),
+      localDay(now),
+      event.chatKey,
+      event.sessionId,
+      event.workingDir,
+      event.model,
+      event.usage.input_tokens || 0,
+      event.usage.output_tokens || 0,
+      event.usage.cache_read_input_tokens || 0,
+      event.usage.cache_creation_input_tokens || 0,
+      event.costUsd,
+      event.numTurns,
+      event.durationMs
+    );
+}
+
+// ============== Budget ==============
+
+let budgetWarnedDay: string | null = null;
+
+/**
+ * Today's spend in USD across all chats.
+ */
+export function spentToday(): number {
+  const row = db()
+    .prepare("SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM usage_events WHERE day = ?")
+    .get(localDay()) as { cost: number };
+  return row.cost;
+}
+
+/**
+ * Message to show instead of running a query, or null if it may run.
+ * Only blocks when DAILY_BUDGET_USD is set and BUDGET_MODE is "block".
+ */
+export function budgetBlockMessage(): string | null {
+  if (DAILY_BUDGET_USD <= 0 || BUDGET_MODE !== "block") return null;
+
+  const spent = spentToday();
+  if (spent < DAILY_BUDGET_USD) return null;
+
+  return (
+    `⛔ Daily budget reached: $${spent.toFixed(2)} of $${DAILY_BUDGET_USD.toFixed(2)} spent today. ` +
+    `Queries are paused until tomorrow (see /usage).`
+  );
+}
+
+/**
+ * Warning to show after a query, once per day, when spend has passed the budget.
+ */
+export function budgetWarning(): string | null {
+  if (DAILY_BUDGET_USD <= 0) return null;
+
+  const today = localDay();
+  if (budgetWarnedDay === today) return null;
+
+  const spent = spentToday();
+  if (spent < DAILY_BUDGET_USD) return null;
+
+  budgetWarnedDay = today;
+  return `⚠️ Daily budget exceeded: $${spent.toFixed(2)} of $${DAILY_BUDGET_USD.toFixed(2)} spent today.`;
+}
+
+// ============== Reports ==============
+
+const TOTALS_SQL = `
+  COUNT(*) AS queries,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(cache_creation_tokens), 0) AS cache_creation_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  COALESCE(SUM(num_turns), 0) AS num_turns,
+  COALESCE(SUM(duration_ms), 0) AS duration_ms
+`;
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Render values as a one-line text sparkline.
+ */
+export function sparkline(values: number[]): string {
+  const max = Math.max(...values, 0);
+  return values
+    .map((v) => {
+      if (max === 0 || v <= 0) return SPARK_CHARS[0];
+      const index = Math.min(
+        SPARK_CHARS.length - 1,
+        Math.ceil((v / max) * (SPARK_CHARS.length - 1))
+      );
+      return SPARK_CHARS[index];
+    })
+    .join("");
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes >= 60) return `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function formatTotals(label: string, t: UsageTotals): string {
+  return (
+    `<b>${label}</b>: $${t.cost_usd.toFixed(2)} · ${t.queries} queries · ${t.num_turns} turns · ${formatDuration(t.duration_ms)}\n` +
+    `   in ${formatTokens(t.input_tokens)} · out ${formatTokens(t.output_tokens)} · ` +
+    `cache read ${formatTokens(t.cache_read_tokens)} / write ${formatTokens(t.cache_creation_tokens)}`
+  );
+}
+
+/**
+ * Fixed-width table for a <pre> block. The first column is left-aligned.
+ */
+function table(headers: string[], rows: string[][]): string {
+  const widths = headers.map((h, i) =>
+    Math.max(h.length, ...rows.map((r) => (r[i] || "").length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((c, i) => (i === 0 ? c.padEnd(widths[i]!) : c.padStart(widths[i]!)))
+      .join("  ");
+  return [line(headers), ...rows.map(line)].join("\n");
+}
+
+function totalsSince(day: string): UsageTotals {
+  return db()
+    .prepare(`SELECT ${TOTALS_SQL} FROM usage_events WHERE day >= ?`)
+    .get(day) as UsageTotals;
+}
+
+/**
+ * Cost per day for the last `days` days, oldest first (zero-filled).
+ */
+function dailyCosts(days: number): { day: string; totals: UsageTotals }[] {
+  const rows = db()
+    .prepare(
+      `SELECT day, ${TOTALS_SQL} FROM usage_events WHERE day >= ? GROUP BY day`
+    )
+    .all(daysAgo(days - 1)) as (UsageTotals & { day: string })[];
+  const byDay = new Map(rows.map((r) => [r.day, r]));
+
+  const result: { day: string; totals: UsageTotals }[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const day = daysAgo(i);
+    result.push({
+      day,
+      totals: byDay.get(day) || {
+        queries: 0,
+        input_tokens: 0,
+        output_tokens: 0,
+        cache_read_tokens: 0,
+        cache_creation_tokens: 0,
+        cost_usd: 0,
+        num_turns: 0,
+        duration_ms: 0,
+      },
+    });
+  }
+  return result;
+}
+
+function budgetLine(): string {
+  if (DAILY_BUDGET_USD <= 0) return "";
+  const spent = spentToday();
+  const pct = Math.round((spent / DAILY_BUDGET_USD) * 100);
+  return `\n💰 Budget: $${spent.toFixed(2)} / $${DAILY_BUDGET_USD.toFixed(2)} today (${pct}%, ${BUDGET_MODE})`;
+}
+
+/**
+ * Build a /usage report as Telegram HTML.
+ */
+export function buildUsageReport(report: UsageReport): string {
+  const lines: string[] = [];
+
+  if (report === "today") {
+    lines.push(formatTotals("Today", totalsSince(localDay())));
+
+    const rows = db()
+      .prepare(
+        `SELECT g.*, COALESCE(s.title, '') AS title FROM (
+           SELECT session_id, ${TOTALS_SQL} FROM usage_events
+           WHERE day = ? GROUP BY session_id
+         ) g LEFT JOIN sessions s ON s.session_id = g.session_id
+         ORDER BY g.cost_usd DESC LIMIT 10`
+      )
+      .all(localDay()) as (UsageTotals & { session_id: string | null; title: string })[];
+    if (rows.length > 0) {
+      const body = table(
+        ["Session", "Cost", "Tokens", "Time"],
+        rows.map((r) => [
+          (r.title || r.session_id?.slice(0, 8) || "?").slice(0, 20),
+          `$${r.cost_usd.toFixed(2)}`,
+          formatTokens(r.input_tokens + r.output_tokens),
+          formatDuration(r.duration_ms),
+        ])
+      );
+      lines.push(`\n<pre>${escapeHtml(body)}</pre>`);
+    }
+  } else if (report === "week") {
+    const days = dailyCosts(7);
+    lines.push(formatTotals("Last 7 days", totalsSince(days[0]!.day)));
+    lines.push(`\n<code>${sparkline(days.map((d) => d.totals.cost_usd))}</code> cost per day`);
+    const body = table(
+      ["Day", "Cost", "Queries", "Tokens"],
+      days.map((d) => [
+        d.day.slice(5),
+        `$${d.totals.cost_usd.toFixed(2)}`,
+        String(d.totals.queries),
+        formatTokens(d.totals.input_tokens + d.totals.output_tokens),
+      ])
+    );
+    lines.push(`<pre>${escapeHtml(body)}</pre>`);
+  } else if (report === "project") {
+    const since = daysAgo(29);
+    const rows = db()
+      .prepare(
+        `SELECT working_dir, ${TOTALS_SQL} FROM usage_events
+         WHERE day >= ? GROUP BY working_dir ORDER BY cost_usd DESC LIMIT 15`
+      )
+      .all(since) as (UsageTotals & { working_dir: string })[];
+    lines.push("<b>By project</b> (last 30 days)");
+    if (rows.length === 0) {
+      lines.push("\nNo usage recorded yet.");
+    } else {
+      const body = table(
+        ["Project", "Cost", "Queries", "Time"],
+        rows.map((r) => {
+          const dir = r.working_dir.replace(/\\/g, "/");
+          return [
+            (dir.split("/").pop() || dir || "?").slice(0, 20),
+            `$${r.cost_usd.toFixed(2)}`,
+            String(r.queries),
+            formatDuration(r.duration_ms),
+          ];
+        })
+      );
+      lines.push(`\n<pre>${escapeHtml(body)}</pre>`);
+    }
+  } else {
+    const days = dailyCosts(14);
+    lines.push(formatTotals("Today", days[days.length - 1]!.totals));
+    lines.push(formatTotals("Last 7 days", totalsSince(daysAgo(6))));
+    lines.push(formatTotals("Last 30 days", totalsSince(daysAgo(29))));
+    lines.push(
+      `\n<code>${sparkline(days.map((d) => d.totals.cost_usd))}</code> cost, last 14 days`
+    );
+  }
+
+  return `📊 <b>Usage</b>\n\n${lines.join("\n")}${budgetLine()}`;
+}
@@ -8,7 +8,7 @@ import OpenAI from "openai";
 import { createReadStream } from "fs";
 import type { Chat } from "grammy/types";
 import type { Context } from "grammy";
-import type { AuditEvent } from "./types";
+import type { AuditEvent, CommandAnalysis } from "./types";
 import {
   AUDIT_LOG_PATH,
   AUDIT_LOG_JSON,
@@ -98,7 +98,8 @@ export async function auditLogTool(
   toolName: string,
   toolInput: Record<string, unknown>,
   blocked = false,
-  reason = ""
+  reason = "",
+  analysis?: CommandAnalysis
 ): Promise<void> {
   const event: AuditEvent = {
     timestamp: new Date().toISOString(),
@@ -112,6 +113,10 @@ export async function auditLogTool(
   if (blocked && reason) {
     event.reason = reason;
   }
+  if (analysis) {
+    event.command_kind = analysis.kind;
+    event.command_findings = analysis.findings;
+  }
   await writeAuditLog(event);
 }
 
@@ -206,7 +211,7 @@ export function startTypingIndicator(ctx: Context): TypingController {
 
 // Import session lazily to avoid circular dependency
 let sessionModule: {
-  session: {
+  getSession: (ctx: Context) => {
     isRunning: boolean;
     stop: () => Promise<"stopped" | "pending" | false>;
     markInterrupt: () => void;
@@ -214,7 +219,10 @@ let sessionModule: {
   };
 } | null = null;
 
-export async function checkInterrupt(text: string): Promise<string> {
+export async function checkInterrupt(
+  ctx: Context,
+  text: string
+): Promise<string> {
   if (!text || !text.startsWith("!")) {
     return text;
   }
@@ -225,15 +233,26 @@ export async function checkInterrupt(text: string): Promise<string> {
   }
 
   const strippedText = text.slice(1).trimStart();
+  const session = sessionModule.getSession(ctx);
 
-  if (sessionModule.session.isRunning) {
+  if (session.isRunning) {
     console.log("! prefix - interrupting current query");
-    sessionModule.session.markInterrupt();
-    await sessionModule.session.stop();
+    session.markInterrupt();
+    await session.stop();
     await sleep(100);
     // Clear stopRequested so the new message can proceed
-    sessionModule.session.clearStopRequested();
+    session.clearStopRequested();
   }
 
   return strippedText;
 }
+
+// ============== Query Errors ==============
+
+/**
+ * Reply for a query the hard timeout stopped, or null for any other error.
+ */
+export function queryTimeoutReply(error: unknown): string | null {
+  const match = String(error).match(/Query timed out after (\w+)/);
+  return match ? `⏱ Query timed out after ${match[1]} and was stopped.` : null;
+}
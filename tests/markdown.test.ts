@@ -0,0 +1,264 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { describe, expect, test } from "vitest";
+import {
+  convertMarkdownToHtml,
+  previewMarkdown,
+  splitHtmlMessage,
+  splitMarkdown,
+} from "../src/formatting";
+import type { Attachment } from "../src/markdown";
+
+// Each fixtures/markdown/<name>.md is converted and compared to <name>.html
+const FIXTURES = join(import.meta.dirname, "fixtures", "markdown");
+
+const fixtures = readdirSync(FIXTURES)
+  .filter((f) => f.endsWith(".md"))
+  .map((f) => f.slice(0, -3));
+
+/**
+ * Tags of a Telegram HTML string that aren't closed in order, if any.
+ */
+function unbalancedTags(html: string): string[] {
+  const stack: string[] = [];
+  const errors: string[] = [];
+  for (const match of html.matchAll(/<(\/?)([a-z-]+)[^>]*>/g)) {
+    const [, closing, name] = match as unknown as [string, string, string];
+    if (!closing) {
+      stack.push(name);
+    } else if (stack.pop() !== name) {
+      errors.push(`</${name}> at ${match.index}`);
+    }
+  }
+  return [...errors, ...stack.map((name) => `<${name}> not closed`)];
+}
+
+describe("convertMarkdownToHtml fixtures", () => {
+  test.each(fixtures)("%s", (name) => {
+    const markdown = readFileSync(join(FIXTURES, `${name}.md`), "utf8");
+    const expected = readFileSync(join(FIXTURES, `${name}.html`), "utf8");
+    const html = convertMarkdownToHtml(markdown);
+
+    expect(html).toBe(expected.replace(/\n$/, ""));
+    expect(unbalancedTags(html)).toEqual([]);
+  });
+});
+
+describe("convertMarkdownToHtml", () => {
+  test("single asterisks are italic, not bold", () => {
+    expect(convertMarkdownToHtml("*text*")).toBe("<i>text</i>");
+  });
+
+  test("underscores inside identifiers are not emphasis", () => {
+    expect(convertMarkdownToHtml("use snake_case_name here")).toBe(
+      "use snake_case_name here"
+    );
+  });
+
+  test("links keep parentheses in the URL", () => {
+    expect(convertMarkdownToHtml("[x](https://a.b/c_(d))")).toBe(
+      '<a href="https://a.b/c_(d)">x</a>'
+    );
+  });
+
+  test("code is escaped and never formatted", () => {
+    expect(convertMarkdownToHtml("`**a** <b>`")).toBe(
+      "<code>**a** &lt;b&gt;</code>"
+    );
+  });
+
+  test("every prefix of a document renders balanced tags", () => {
+    // Streaming converts partial answers, cut anywhere
+    const markdown = fixtures
+      .map((name) => readFileSync(join(FIXTURES, `${name}.md`), "utf8"))
+      .join("\n");
+    for (let end = 0; end <= markdown.length; end += 7) {
+      const html = convertMarkdownToHtml(markdown.slice(0, end));
+      expect(unbalancedTags(html), markdown.slice(0, end)).toEqual([]);
+    }
+  });
+});
+
+describe("long tables and code blocks", () => {
+  const table = (rows: number) =>
+    [
+      "| Name | Count |",
+      "|------|------:|",
+      ...Array.from({ length: rows }, (_, i) => `| row ${i} | ${i * 10} |`),
+    ].join("\n");
+  const code = (lines: number) =>
+    ["```python", ...Array.from({ length: lines }, (_, i) => `print(${i})`), "```"].join(
+      "\n"
+    );
+
+  test("long tables are attached as CSV with a preview", () => {
+    const attachments: Attachment[] = [];
+    const html = convertMarkdownToHtml(table(8), { tableMaxRows: 6, attachments });
+
+    expect(html).toContain("row 4");
+    expect(html).not.toContain("row 5");
+    expect(html).toContain("3 more rows in table-1.csv");
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0]!.filename).toBe("table-1.csv");
+    expect(attachments[0]!.content.split("\n")[1]).toBe("row 0,0");
+  });
+
+  test("long tables render in full without attachments", () => {
+    const html = convertMarkdownToHtml(table(8), { tableMaxRows: 6 });
+    expect(html).toContain("row 7");
+  });
+
+  test("wide tables are laid out one record per row", () => {
+    const html = convertMarkdownToHtml(table(2), { tableMaxWidth: 10 });
+    expect(html).toBe("<pre>Name   row 0\nCount  0\n\nName   row 1\nCount  10</pre>");
+  });
+
+  test("CSV fields with commas and quotes are quoted", () => {
+    const attachments: Attachment[] = [];
+    convertMarkdownToHtml('| a |\n|---|\n| x, "y" |\n| z |', {
+      tableMaxRows: 1,
+      attachments,
+    });
+    expect(attachments[0]!.content).toBe('a\n"x, ""y"""\nz\n');
+  });
+
+  test("long code collapses into an expandable quote", () => {
+    const html = convertMarkdownToHtml(code(6), {
+      codeMaxLines: 5,
+      longCode: "expandable",
+      attachments: [],
+    });
+    expect(html).toMatch(/^<blockquote expandable><i>python, 6 lines<\/i>\nprint\(0\)/);
+  });
+
+  test("long code is attached with the language's extension", () => {
+    const attachments: Attachment[] = [];
+    const html = convertMarkdownToHtml(code(6), {
+      codeMaxLines: 5,
+      longCode: "file",
+      attachments,
+    });
+    expect(html).toBe("📎 <i>python, 6 lines, attached as snippet-1.py</i>");
+    expect(attachments[0]!.content).toBe(
+      `${Array.from({ length: 6 }, (_, i) => `print(${i})`).join("\n")}\n`
+    );
+  });
+});
+
+describe("splitMarkdown", () => {
+  const paragraphs = (count: number) =>
+    Array.from({ length: count }, (_, i) => `Paragraph ${i} ${"word ".repeat(15)}`.trim()).join(
+      "\n\n"
+    );
+  const fenced = (open: string, close: string, lines: number) =>
+    [open, ...Array.from({ length: lines }, (_, i) => `line ${i}`), close].join("\n");
+
+  test("returns null when the HTML fits", () => {
+    expect(splitMarkdown(paragraphs(2), 4000)).toBeNull();
+  });
+
+  test("cuts at a blank line, and head and rest cover the text", () => {
+    const text = paragraphs(10);
+    const split = splitMarkdown(text, 400)!;
+
+    expect(convertMarkdownToHtml(split.head).length).toBeLessThanOrEqual(400);
+    expect(split.head).toMatch(/word\n\n$/);
+    expect(split.reopen).toBe("");
+    expect(text.slice(0, split.consumed)).toBe(split.head);
+    expect(split.head + split.rest).toBe(text);
+  });
+
+  test.each([
+    ["```python", "```"],
+    ["~~~python", "~~~"],
+    ["````python", "````"],
+  ])("closes and reopens a %s block that spans the cut", (open, close) => {
+    const split = splitMarkdown(fenced(open, close, 60), 300)!;
+
+    expect(split.head.endsWith(`\n${close}`)).toBe(true);
+    expect(split.reopen).toBe(`${open}\n`);
+    expect(split.rest.startsWith(split.reopen)).toBe(true);
+    expect(convertMarkdownToHtml(split.head)).toMatch(/^<pre><code class="language-python">line 0\n/);
+    expect(convertMarkdownToHtml(split.rest)).toMatch(/^<pre><code class="language-python">/);
+  });
+
+  test("a shorter fence inside a ~~~~ block doesn't close it", () => {
+    const text = ["~~~~", "~~~", ...Array.from({ length: 60 }, (_, i) => `line ${i}`), "~~~~"].join(
+      "\n"
+    );
+    const split = splitMarkdown(text, 300)!;
+    expect(split.reopen).toBe("~~~~\n");
+  });
+
+  test("measures the HTML as rendered with the options", () => {
+    // Collapsed code is a little longer than the live <pre>
+    const text = `${"word ".repeat(80)}\n\n${fenced("```python", "```", 45)}`;
+    const options = { codeMaxLines: 40, longCode: "expandable" as const, attachments: [] };
+    const live = convertMarkdownToHtml(text, { codeMaxLines: 40 }).length;
+    const finished = convertMarkdownToHtml(text, { ...options, attachments: [] }).length;
+    const limit = Math.floor((live + finished) / 2);
+
+    expect(splitMarkdown(text, limit, { codeMaxLines: 40 })).toBeNull();
+    expect(splitMarkdown(text, limit, options)).not.toBeNull();
+  });
+
+  test("doesn't add to the attachments it measures with", () => {
+    const text = Array.from({ length: 6 }, () => fenced("```python", "```", 45)).join("\n\n");
+    const attachments: Attachment[] = [];
+    const split = splitMarkdown(text, 300, { codeMaxLines: 40, longCode: "file", attachments });
+
+    expect(split).not.toBeNull();
+    expect(attachments).toEqual([]);
+  });
+});
+
+describe("splitHtmlMessage", () => {
+  test("keeps short HTML in one chunk", () => {
+    expect(splitHtmlMessage("<b>hi</b>", 100)).toEqual(["<b>hi</b>"]);
+  });
+
+  test("closes tags at the cut and reopens them in the next chunk", () => {
+    const html = `<blockquote expandable>${"some words here\n".repeat(40)}</blockquote>`;
+    const chunks = splitHtmlMessage(html, 200);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+      expect(chunk.startsWith("<blockquote expandable>")).toBe(true);
+      expect(unbalancedTags(chunk)).toEqual([]);
+    }
+    const text = chunks.map((c) => c.replace(/<[^>]+>/g, "")).join("\n");
+    expect(text.match(/some words here/g)).toHaveLength(40);
+  });
+
+  test("never cuts inside an entity or a tag", () => {
+    const html = `<i>${"a &amp; b ".repeat(50)}</i>`;
+    for (const chunk of splitHtmlMessage(html, 97)) {
+      expect(chunk).not.toMatch(/&[a-z]*$|&[a-z]*<|<[^>]*$/);
+      expect(unbalancedTags(chunk)).toEqual([]);
+    }
+  });
+});
+
+describe("previewMarkdown", () => {
+  test("shows the first paragraph with the headings above it", () => {
+    expect(previewMarkdown("# Title\n\nFirst.\n\nSecond.", 100)).toBe("<b>Title</b>\n\nFirst.");
+  });
+
+  test("cuts a long first paragraph at a sentence end", () => {
+    const sentences = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`);
+    const html = previewMarkdown(`Here's the spec:\n\n${sentences.join(" ")}\n\nMore.`, 300);
+
+    expect(html.startsWith("Here's the spec:\n\nSentence number 0 is here.")).toBe(true);
+    expect(html.length).toBeLessThanOrEqual(300);
+    expect(html.length).toBeGreaterThan(150);
+    expect(html).toMatch(/is here\.$/);
+  });
+
+  test("cuts at a word when no sentence ends", () => {
+    const html = previewMarkdown(`Intro:\n\n${"lorem ipsum ".repeat(100)}`, 200);
+
+    expect(html.length).toBeLessThanOrEqual(200);
+    expect(html).toMatch(/^Intro:\n\n(lorem ipsum )+(lorem|lorem ipsum)…$/);
+  });
+});
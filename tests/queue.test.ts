@@ -0,0 +1,113 @@
+import { afterAll, describe, expect, test, vi } from "vitest";
+import { rmSync } from "fs";
+import { Composer, type Context } from "grammy";
+import { sequentialize } from "@grammyjs/runner";
+
+// config.ts reads the environment on import
+const DATA_DIR = await vi.hoisted(async () => {
+  const { mkdtempSync } = await import("fs");
+  const { tmpdir } = await import("os");
+  const { join } = await import("path");
+  const dir = mkdtempSync(join(tmpdir(), "queue-test-"));
+  process.env.TELEGRAM_BOT_TOKEN = "test";
+  process.env.TELEGRAM_ALLOWED_USERS = "1";
+  process.env.BOT_DATA_DIR = dir;
+  process.env.AUDIT_LOG_PATH = join(dir, "audit.log");
+  return dir;
+});
+
+const { getSession, sequentializeKey } = await import("../src/session");
+const { handleText } = await import("../src/handlers/text");
+const { orphanPendingWork } = await import("../src/session-store");
+
+afterAll(() => rmSync(DATA_DIR, { recursive: true, force: true }));
+
+let nextMessageId = 1;
+
+function textUpdate(text: string, chatId = 42): Context {
+  const message = {
+    message_id: nextMessageId++,
+    date: 0,
+    chat: { id: chatId, type: "private" },
+    from: { id: 1, is_bot: false, first_name: "Test" },
+    text,
+  };
+  const sent = () => Promise.resolve({ message_id: nextMessageId++, chat: message.chat });
+  return {
+    update: { update_id: message.message_id, message },
+    message,
+    msg: message,
+    chat: message.chat,
+    from: message.from,
+    reply: vi.fn(sent),
+    replyWithChatAction: vi.fn(() => Promise.resolve(true)),
+    api: new Proxy({}, { get: () => vi.fn(sent) }),
+  } as unknown as Context;
+}
+
+const settle = (promise: unknown) =>
+  Promise.race([
+    Promise.resolve(promise).then(() => "done"),
+    new Promise((resolve) => setTimeout(() => resolve("held"), 200)),
+  ]);
+
+const bot = new Composer<Context>();
+bot.use(sequentialize(sequentializeKey));
+bot.on("message:text", handleText);
+const handle = (ctx: Context) => bot.middleware()(ctx, () => Promise.resolve());
+
+/**
+ * Send a first message whose query stays running until finish() is called.
+ */
+async function startBusySession(chatId: number) {
+  const first = textUpdate("first", chatId);
+  const session = getSession(first);
+  let finish!: (response: string) => void;
+  const query = vi
+    .spyOn(session, "sendMessageStreaming")
+    .mockImplementationOnce(() => new Promise((resolve) => (finish = resolve)))
+    .mockResolvedValue("ok");
+
+  const done = handle(first);
+  await vi.waitFor(() => expect(query).toHaveBeenCalledTimes(1));
+  expect(session.isRunning).toBe(true);
+  return { session, query, done, finish: (response: string) => finish(response) };
+}
+
+describe("message queue", () => {
+  test("messages sent to a busy session land in its queue", async () => {
+    const { session, query, done, finish } = await startBusySession(42);
+
+    const second = textUpdate("second");
+    expect(sequentializeKey(second)).toBeUndefined();
+    expect(await settle(handle(second))).toBe("done");
+    expect(session.queuedMessages.map((item) => item.text)).toEqual(["second"]);
+    expect(second.reply).toHaveBeenCalledWith(
+      expect.stringContaining("Queued"),
+      expect.anything()
+    );
+
+    finish("ok");
+    await done;
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[1]![0]).toBe("second");
+    expect(session.queueLength).toBe(0);
+  });
+
+  test("messages waiting on a busy session are kept for a restart", async () => {
+    const { done, finish } = await startBusySession(43);
+
+    await handle(textUpdate("second", 43));
+    const pending = orphanPendingWork().filter((row) => row.chat_key === "43");
+    expect(pending.map((row) => [row.kind, row.prompt])).toEqual([["queued", "second"]]);
+
+    finish("ok");
+    await done;
+  });
+
+  test("messages to an idle session are sequentialized per session", () => {
+    const ctx = textUpdate("hello");
+    expect(sequentializeKey(ctx)).toBe(`42:${getSession(ctx).id}`);
+    expect(sequentializeKey(textUpdate("/status"))).toBeUndefined();
+  });
+});
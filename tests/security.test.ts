@@ -0,0 +1,166 @@
+import { describe, expect, test, vi } from "vitest";
+
+// config.ts reads the environment on import
+const PROJECT = vi.hoisted(() => {
+  const project = "/srv/project";
+  process.env.TELEGRAM_BOT_TOKEN = "test";
+  process.env.TELEGRAM_ALLOWED_USERS = "1";
+  process.env.ALLOWED_PATHS = project;
+  process.env.SECURITY_TEST_DIR = "build";
+  return project;
+});
+
+const { analyzeCommand, checkCommandSafety } = await import("../src/security");
+
+const analyze = (command: string) => analyzeCommand(command, PROJECT);
+const commands = (command: string) => analyze(command).findings.map((f) => f.command);
+
+describe("tokenizer", () => {
+  test("splits at operators and newlines", () => {
+    expect(commands("ls -la && cat a | grep x; echo hi\npwd || true")).toEqual([
+      "ls -la",
+      "cat a",
+      "grep x",
+      "echo hi",
+      "pwd",
+      "true",
+    ]);
+  });
+
+  test("removes quotes and keeps quoted operators in the word", () => {
+    expect(commands(`echo "a && b" 'c;d' e\\ f`)).toEqual(["echo a && b c;d e f"]);
+  });
+
+  test("expands variables and ~", () => {
+    expect(commands("echo $SECURITY_TEST_DIR ${SECURITY_TEST_DIR}/x")).toEqual([
+      "echo build build/x",
+    ]);
+    expect(analyze("rm -rf ~/notes").findings[0]!.paths[0]).toMatch(/\/notes$/);
+  });
+
+  test("analyzes command substitutions and nested shells", () => {
+    expect(analyze("echo $(rm -rf /etc)").safe).toBe(false);
+    expect(analyze("echo `rm -rf /etc`").safe).toBe(false);
+    expect(analyze(`bash -c "rm -rf /etc"`).reason).toContain("outside allowed paths");
+    expect(commands(`sh -c 'ls && pwd'`)).toEqual(["ls", "pwd"]);
+  });
+
+  test("refuses what it can't parse", () => {
+    expect(analyze(`echo "unterminated`).reason).toContain("Could not parse");
+    expect(analyze("echo $(ls").safe).toBe(false);
+  });
+
+  test("unknown variables in delete targets are blocked", () => {
+    expect(analyze("rm -rf $NOT_SET_ANYWHERE/x").reason).toContain("Unresolved variable");
+  });
+});
+
+describe("classifier", () => {
+  test.each([
+    ["ls -la", "read"],
+    ["git status", "read"],
+    ["sed s/a/b/ file", "read"],
+    ["npm test", "write"],
+    ["npm install left-pad", "network"],
+    ["curl https://example.com", "network"],
+    ["git push origin main", "network"],
+    ["git reset --hard", "destructive"],
+    ["git push --force", "destructive"],
+    ["find . -name '*.tmp' -delete", "destructive"],
+  ])("%s is %s", (command, kind) => {
+    expect(analyze(command).kind).toBe(kind);
+  });
+
+  test("the most dangerous finding sets the kind", () => {
+    const analysis = analyze("ls | xargs rm");
+    expect(analysis.kind).toBe("destructive");
+    expect(analysis.findings.map((f) => f.kind)).toEqual(["read", "destructive"]);
+  });
+
+  test("records the program after wrappers", () => {
+    const programs = (command: string) => analyze(command).findings.map((f) => f.program);
+    expect(programs("sudo apt list")).toEqual(["sudo apt"]);
+    expect(programs("FOO=1 timeout 5 nice -n 10 npm test")).toEqual(["npm"]);
+    expect(programs("ls | xargs -n 1 rm")).toEqual(["ls", "rm"]);
+  });
+});
+
+describe("deleted paths", () => {
+  test("resolves targets against the working dir", () => {
+    const analysis = analyze("rm -rf build dist/cache");
+    expect(analysis.safe).toBe(true);
+    expect(analysis.findings[0]!.paths).toEqual([
+      `${PROJECT}/build`,
+      `${PROJECT}/dist/cache`,
+    ]);
+  });
+
+  test("blocks targets outside the allowed paths", () => {
+    expect(analyze("rm /etc/passwd").reason).toBe(
+      "rm target outside allowed paths: /etc/passwd"
+    );
+    expect(analyze("rm -rf ../other").safe).toBe(false);
+  });
+
+  test("blocks deleting an allowed directory itself", () => {
+    expect(analyze(`rm -rf ${PROJECT}`).reason).toContain("would delete an allowed directory");
+    expect(analyze("rm -rf .").safe).toBe(false);
+  });
+
+  test("follows cd", () => {
+    expect(analyze("cd /etc && rm passwd").safe).toBe(false);
+    expect(analyze("cd sub && rm -rf out").findings[1]!.paths).toEqual([
+      `${PROJECT}/sub/out`,
+    ]);
+  });
+
+  test("blocks destructive commands run as root", () => {
+    expect(analyze("sudo rm -rf build").reason).toContain("run as root");
+  });
+});
+
+describe("written paths", () => {
+  test.each([
+    ["mv /etc/passwd /tmp/x", "mv target outside allowed paths: /etc/passwd"],
+    ["cp /dev/null /etc/hosts", "cp target outside allowed paths: /etc/hosts"],
+    ["chmod -R 777 /", "chmod target outside allowed paths: /"],
+    ["chown -R me:me /var/lib", "chown target outside allowed paths: /var/lib"],
+    ["echo x | sudo tee /etc/hosts", "tee target outside allowed paths: /etc/hosts"],
+    ["cp -t /etc a b", "cp target outside allowed paths: /etc"],
+    ["sed -i s/a/b/ /etc/hosts", "sed target outside allowed paths: /etc/hosts"],
+    ["echo x > /etc/hosts", "Write outside allowed paths: /etc/hosts"],
+    ["echo x >> ~/.bashrc", "Write outside allowed paths"],
+  ])("blocks %s", (command, reason) => {
+    const analysis = analyze(command);
+    expect(analysis.safe).toBe(false);
+    expect(analysis.reason).toContain(reason);
+  });
+
+  test.each([
+    ["cp /etc/hosts hosts.bak", [`${PROJECT}/hosts.bak`]],
+    ["mv a.txt b.txt", [`${PROJECT}/a.txt`, `${PROJECT}/b.txt`]],
+    ["chmod +x run.sh", [`${PROJECT}/run.sh`]],
+    ["mkdir -p out/logs && touch out/logs/x", [`${PROJECT}/out/logs`]],
+    ["ls > files.txt", [`${PROJECT}/files.txt`]],
+  ])("allows %s inside the project", (command, paths) => {
+    const analysis = analyze(command);
+    expect(analysis.safe).toBe(true);
+    expect(analysis.kind).toBe("write");
+    expect(analysis.findings[0]!.paths).toEqual(paths);
+  });
+
+  test("writes to /dev/null are reads", () => {
+    expect(analyze("ls 2> /dev/null").kind).toBe("read");
+  });
+});
+
+describe("checkCommandSafety", () => {
+  test("blocks configured patterns", () => {
+    expect(checkCommandSafety("rm -rf /", PROJECT)).toEqual([false, "Blocked pattern: rm -rf /"]);
+  });
+
+  test("passes the analysis on", () => {
+    expect(checkCommandSafety("git status", PROJECT)).toEqual([true, ""]);
+    expect(checkCommandSafety("mv /etc/passwd /tmp/x", PROJECT)[0]).toBe(false);
+  });
+});